@@ -1,13 +1,50 @@
 export * from './public/PayloadSDK.js';
 export * from './public/config/RequestConfig.js';
+export * from './public/config/RequestOptions.js';
+export * from './public/config/ClientDefaults.js';
+export * from './public/config/PayloadConfig.js';
+export * from './public/response/ResponseMeta.js';
+export * from './public/response/ResponseBody.js';
+export * from './public/response/FileDownload.js';
+export * from './public/middleware/Middleware.js';
 export * from './public/query/JoinBuilder.js';
 export * from './public/query/SelectBuilder.js';
 export * from './public/query/WhereBuilder.js';
 export * from './public/query/QueryBuilder.js';
 export * from './public/PayloadError.js';
+export * from './public/errors/PayloadSDKError.js';
+export * from './public/errors/PayloadNetworkError.js';
+export * from './public/errors/PayloadTimeoutError.js';
+export * from './public/errors/PayloadAbortError.js';
+export * from './public/errors/PayloadParseError.js';
+export * from './public/errors/PayloadValidationError.js';
+export * from './public/errors/PayloadUnauthorizedError.js';
+export * from './public/errors/PayloadForbiddenError.js';
+export * from './public/errors/PayloadNotFoundError.js';
+export * from './public/errors/PayloadConflictError.js';
+export * from './public/errors/PayloadRateLimitError.js';
+export * from './public/errors/PayloadFileRejectedError.js';
 export * from './public/models/errors/ErrorResultDTO.js';
+export * from './public/contracts/IAuthCredential.js';
 export * from './public/config/ApiKeyAuth.js';
 export * from './public/config/JwtAuth.js';
+export * from './public/config/RefreshingJwtAuth.js';
+export * from './public/config/CookieAuth.js';
+export * from './public/cookies/Cookie.js';
+export * from './public/cookies/CookieJar.js';
+export * from './public/contracts/ICookieStorage.js';
+export * from './public/session/SessionManager.js';
+export * from './public/session/SessionState.js';
+export * from './public/session/MemorySessionStorage.js';
+export * from './public/session/WebSessionStorage.js';
+export * from './public/session/FileSessionStorage.js';
+export * from './public/contracts/ISessionStorage.js';
+export * from './public/config/RetryPolicy.js';
+export * from './public/config/RequestLimiter.js';
+export * from './public/cache/ResponseCache.js';
+export * from './public/cache/MemoryCacheStorage.js';
+export * from './public/cache/CacheEntry.js';
+export * from './public/contracts/ICacheStorage.js';
 export * from './public/models/collection/DocumentDTO.js';
 export * from './public/models/collection/PaginatedDocsDTO.js';
 export * from './public/models/collection/TotalDocsDTO.js';
@@ -17,6 +54,17 @@ export * from './public/models/auth/RefreshResultDTO.js';
 export * from './public/models/auth/ResetPasswordResultDTO.js';
 export * from './public/models/auth/MessageDTO.js';
 export * from './types/Json.js';
+export * from './types/FetchFunction.js';
 export * from './public/enums/Operator.js';
 export * from './public/enums/HttpMethod.js';
+export * from './public/enums/ResponseType.js';
+export * from './public/enums/LogLevel.js';
+export * from './public/logging/LogEvent.js';
+export * from './public/logging/RequestLogger.js';
+export * from './public/logging/ConsoleLogger.js';
+export * from './public/contracts/ILogger.js';
 export * from './public/upload/FileUpload.js';
+export * from './public/upload/UploadProgress.js';
+export * from './public/upload/FileUploadLimits.js';
+export * from './public/upload/MediaImporter.js';
+export * from './public/upload/MediaImportResult.js';
@@ -2,12 +2,15 @@
  * Defines the shape of a file for Payload CMS `upload` collections.
  */
 export interface IFileUpload {
-  /** The binary content of the file. */
-  readonly content: Blob;
+  /** The binary content of the file, in memory or as a stream read once while uploading. */
+  readonly content: Blob | ReadableStream<Uint8Array>;
 
   /** The filename to use for the upload (e.g., "photo.jpg"). */
   readonly filename: string;
 
-  /** Optional MIME type (e.g., "image/jpeg"). If omitted, the content's type is used as-is. */
+  /** Optional MIME type (e.g., "image/jpeg"). If unknown, the content's type, or `application/octet-stream`, is sent. */
   readonly mimeType: string | undefined;
+
+  /** The size of the content in bytes, if known. */
+  readonly size: number | undefined;
 }
@@ -0,0 +1,42 @@
+import { PayloadError } from "../../public/PayloadError.js";
+import { PayloadValidationError } from "../../public/errors/PayloadValidationError.js";
+import { PayloadUnauthorizedError } from "../../public/errors/PayloadUnauthorizedError.js";
+import { PayloadForbiddenError } from "../../public/errors/PayloadForbiddenError.js";
+import { PayloadNotFoundError } from "../../public/errors/PayloadNotFoundError.js";
+import { PayloadConflictError } from "../../public/errors/PayloadConflictError.js";
+import { PayloadRateLimitError } from "../../public/errors/PayloadRateLimitError.js";
+
+/**
+ * Maps a failed response to the matching {@link PayloadError} subclass.
+ *
+ * Statuses without a dedicated subclass produce a plain
+ * {@link PayloadError}.
+ */
+export class PayloadErrorFactory {
+  /**
+   * Creates the {@link PayloadError} for a non-2xx response.
+   *
+   * @param {ConstructorParameters<typeof PayloadError>[0]} options - The {@link PayloadError} constructor options.
+   *
+   * @returns {PayloadError} The status-specific error instance.
+   */
+  static create(options: ConstructorParameters<typeof PayloadError>[0]): PayloadError {
+    switch (options.statusCode) {
+      case 400:
+        return new PayloadValidationError(options);
+      case 401:
+        return new PayloadUnauthorizedError(options);
+      case 403:
+        return new PayloadForbiddenError(options);
+      case 404:
+        return new PayloadNotFoundError(options);
+      case 409:
+      case 423:
+        return new PayloadConflictError(options);
+      case 429:
+        return new PayloadRateLimitError(options);
+      default:
+        return new PayloadError(options);
+    }
+  }
+}
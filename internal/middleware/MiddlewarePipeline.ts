@@ -0,0 +1,63 @@
+import type { Middleware, MiddlewareNext, MiddlewareRequest, MiddlewareResponse } from "../../public/middleware/Middleware.js";
+
+/**
+ * Composes an ordered list of {@link Middleware} layers
+ * around a terminal request handler.
+ *
+ * Middlewares run in registration order on the way out
+ * and in reverse order on the way back.
+ */
+export class MiddlewarePipeline {
+  private readonly _middlewares: Middleware[] = [];
+
+  /**
+   * Appends a middleware to the end of the pipeline.
+   *
+   * @param {Middleware} options.middleware - The middleware to append.
+   *
+   * @returns {void}
+   */
+  use(options: { middleware: Middleware }): void {
+    const { middleware } = options;
+
+    this._middlewares.push(middleware);
+  }
+
+  /**
+   * Creates an independent pipeline with the same middlewares.
+   *
+   * Middlewares appended to the copy do not affect this pipeline.
+   *
+   * @returns {MiddlewarePipeline} The copy.
+   */
+  copy(): MiddlewarePipeline {
+    const pipeline = new MiddlewarePipeline();
+
+    pipeline._middlewares.push(...this._middlewares);
+
+    return pipeline;
+  }
+
+  /**
+   * Runs a request through every middleware and then the handler.
+   *
+   * @param {MiddlewareRequest} options.request - The outgoing request.
+   * @param {MiddlewareNext} options.handler - The terminal handler that performs the request.
+   *
+   * @returns {Promise<MiddlewareResponse>} The response produced by the chain.
+   */
+  execute(options: { request: MiddlewareRequest; handler: MiddlewareNext }): Promise<MiddlewareResponse> {
+    const { request, handler } = options;
+    const middlewares = [...this._middlewares];
+
+    const dispatch = (index: number, current: MiddlewareRequest): Promise<MiddlewareResponse> => {
+      if (index >= middlewares.length) {
+        return handler(current);
+      }
+
+      return middlewares[index](current, (next) => dispatch(index + 1, next));
+    };
+
+    return dispatch(0, request);
+  }
+}
@@ -0,0 +1,140 @@
+import type { MiddlewareNext, MiddlewareRequest, MiddlewareResponse } from "../../public/middleware/Middleware.js";
+
+type InFlight = {
+  controller: AbortController;
+  promise: Promise<MiddlewareResponse>;
+  subscribers: number;
+};
+
+/**
+ * Coalesces concurrent identical requests into one network call.
+ *
+ * Requests with the same method, URL, and headers (including
+ * the applied credential) share a single in-flight call. Each
+ * caller keeps its own `AbortSignal`: aborting rejects only that
+ * caller, and the shared call is aborted once every caller has.
+ */
+export class RequestDeduplicator {
+  private readonly _inFlight: Map<string, InFlight> = new Map();
+
+  /**
+   * Joins an identical in-flight request, or starts a new one.
+   *
+   * @param {MiddlewareRequest} options.request - The outgoing request.
+   * @param {MiddlewareNext} options.next - Sends the request to the server.
+   *
+   * @returns {Promise<MiddlewareResponse>} The shared response, with a private copy of the JSON body.
+   */
+  execute(options: { request: MiddlewareRequest; next: MiddlewareNext }): Promise<MiddlewareResponse> {
+    const { request, next } = options;
+    const key = this._key({ request });
+
+    let flight = this._inFlight.get(key);
+
+    if (flight === undefined) {
+      const controller = new AbortController();
+      const promise = next({ ...request, signal: controller.signal });
+      const created: InFlight = { controller, promise, subscribers: 0 };
+
+      // Settled per subscriber below; this handler only prevents unhandled rejections.
+      promise.catch(() => undefined).finally(() => this._release({ key, flight: created }));
+
+      this._inFlight.set(key, created);
+      flight = created;
+    }
+
+    return this._subscribe({ key, flight, signal: request.signal });
+  }
+
+  /**
+   * Attaches a caller to an in-flight request.
+   *
+   * @param {string} options.key - The deduplication key.
+   * @param {InFlight} options.flight - The shared in-flight request.
+   * @param {AbortSignal | undefined} options.signal - The caller's abort signal.
+   *
+   * @returns {Promise<MiddlewareResponse>} Settles with the shared result, or rejects when the caller aborts.
+   */
+  private _subscribe(options: { key: string; flight: InFlight; signal: AbortSignal | undefined }): Promise<MiddlewareResponse> {
+    const { key, flight, signal } = options;
+
+    return new Promise<MiddlewareResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let settled = false;
+
+      flight.subscribers++;
+
+      const onAbort = (): void => {
+        if (settled) {
+          return;
+        }
+
+        settled = true;
+        flight.subscribers--;
+        reject(signal?.reason);
+
+        if (flight.subscribers === 0) {
+          this._release({ key, flight });
+          flight.controller.abort(signal?.reason);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      flight.promise.then(
+        (result) => {
+          if (settled) {
+            return;
+          }
+
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          resolve({ ...result, json: result.json !== undefined ? structuredClone(result.json) : undefined });
+        },
+        (error: unknown) => {
+          if (settled) {
+            return;
+          }
+
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Stops new callers from joining a request.
+   *
+   * @param {string} options.key - The deduplication key.
+   * @param {InFlight} options.flight - The request to release.
+   *
+   * @returns {void}
+   */
+  private _release(options: { key: string; flight: InFlight }): void {
+    const { key, flight } = options;
+
+    if (this._inFlight.get(key) === flight) {
+      this._inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Builds the deduplication key for a request.
+   *
+   * @param {MiddlewareRequest} options.request - The outgoing request.
+   *
+   * @returns {string} The method, URL, and sorted headers.
+   */
+  private _key(options: { request: MiddlewareRequest }): string {
+    const { request } = options;
+    const headers = Object.entries(request.headers).sort(([a], [b]) => a.localeCompare(b));
+
+    return `${request.method} ${request.url} ${JSON.stringify(headers)}`;
+  }
+}
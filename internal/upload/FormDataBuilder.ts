@@ -11,16 +11,19 @@ export class FormDataBuilder {
   /**
    * Builds a FormData instance from a file and document data.
    *
-   * @param {IFileUpload} options.file - The file to upload.
+   * Streamed files are encoded by {@link MultipartEncoder} instead.
+   *
+   * @param {IFileUpload} options.file - The file to upload, with its content in memory.
    * @param {Json} options.data - The document data to include alongside the file.
    *
    * @returns {FormData} A FormData object ready to be used as a request body.
    */
-  static build(options: { file: IFileUpload; data: Json }): FormData {
+  static build(options: { file: IFileUpload & { readonly content: Blob }; data: Json }): FormData {
     const { file, data } = options;
     const formData = new FormData();
 
-    const blob = (file.mimeType !== undefined) ? new Blob([file.content], { type: file.mimeType }) : file.content;
+    const type = file.mimeType ?? (file.content.type !== '' ? file.content.type : 'application/octet-stream');
+    const blob = (type !== file.content.type) ? new Blob([file.content], { type }) : file.content;
 
     formData.append('file', blob, file.filename);
     formData.append('_payload', JSON.stringify(data));
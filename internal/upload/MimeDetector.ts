@@ -0,0 +1,240 @@
+/**
+ * MIME types by lowercase file extension.
+ */
+const EXTENSIONS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  ico: 'image/vnd.microsoft.icon',
+  svg: 'image/svg+xml',
+  psd: 'image/vnd.adobe.photoshop',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  avi: 'video/x-msvideo',
+  ogv: 'video/ogg',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/opus',
+  aac: 'audio/aac',
+  pdf: 'application/pdf',
+  rtf: 'application/rtf',
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  ppt: 'application/vnd.ms-powerpoint',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  epub: 'application/epub+zip',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+  xml: 'application/xml',
+};
+
+/**
+ * Container formats whose signature is shared by more specific
+ * types, which only the extension can tell apart.
+ */
+const CONTAINERS: Record<string, string[]> = {
+  'application/zip': ['docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub'],
+  'application/x-cfb': ['doc', 'xls', 'ppt'],
+  'video/mp4': ['m4v', 'm4a'],
+  'video/webm': ['mkv'],
+  'audio/ogg': ['ogv', 'opus'],
+};
+
+/**
+ * Extensions of text formats, which win over weak signatures
+ * that plain text can start with by chance.
+ */
+const TEXT = ['txt', 'csv', 'md', 'html', 'json', 'xml'];
+
+/**
+ * A file signature: byte patterns, as bytes or ASCII text, at offsets.
+ * Weak signatures are short enough to occur at the start of text files.
+ */
+type Signature = { type: string; patterns: [offset: number, pattern: number[] | string][]; weak?: boolean };
+
+/**
+ * Known file signatures, checked in order.
+ */
+const SIGNATURES: Signature[] = [
+  { type: 'image/jpeg', patterns: [[0, [0xff, 0xd8, 0xff]]] },
+  { type: 'image/png', patterns: [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]] },
+  { type: 'image/gif', patterns: [[0, 'GIF87a']] },
+  { type: 'image/gif', patterns: [[0, 'GIF89a']] },
+  { type: 'image/webp', patterns: [[0, 'RIFF'], [8, 'WEBP']] },
+  { type: 'image/bmp', patterns: [[0, 'BM']], weak: true },
+  { type: 'image/tiff', patterns: [[0, [0x49, 0x49, 0x2a, 0x00]]] },
+  { type: 'image/tiff', patterns: [[0, [0x4d, 0x4d, 0x00, 0x2a]]] },
+  { type: 'image/vnd.microsoft.icon', patterns: [[0, [0x00, 0x00, 0x01, 0x00]]] },
+  { type: 'image/vnd.adobe.photoshop', patterns: [[0, '8BPS']] },
+  { type: 'image/avif', patterns: [[4, 'ftypavif']] },
+  { type: 'image/avif', patterns: [[4, 'ftypavis']] },
+  { type: 'image/heic', patterns: [[4, 'ftypheic']] },
+  { type: 'image/heic', patterns: [[4, 'ftypheix']] },
+  { type: 'image/heif', patterns: [[4, 'ftypmif1']] },
+  { type: 'video/quicktime', patterns: [[4, 'ftypqt  ']] },
+  { type: 'audio/mp4', patterns: [[4, 'ftypM4A ']] },
+  { type: 'video/x-m4v', patterns: [[4, 'ftypM4V ']] },
+  { type: 'video/mp4', patterns: [[4, 'ftyp']] },
+  { type: 'video/webm', patterns: [[0, [0x1a, 0x45, 0xdf, 0xa3]]] },
+  { type: 'video/x-msvideo', patterns: [[0, 'RIFF'], [8, 'AVI ']] },
+  { type: 'audio/wav', patterns: [[0, 'RIFF'], [8, 'WAVE']] },
+  { type: 'audio/mpeg', patterns: [[0, 'ID3']], weak: true },
+  { type: 'audio/mpeg', patterns: [[0, [0xff, 0xfb]]] },
+  { type: 'audio/mpeg', patterns: [[0, [0xff, 0xf3]]] },
+  { type: 'audio/mpeg', patterns: [[0, [0xff, 0xf2]]] },
+  { type: 'audio/flac', patterns: [[0, 'fLaC']] },
+  { type: 'audio/ogg', patterns: [[0, 'OggS']] },
+  { type: 'application/pdf', patterns: [[0, '%PDF-']] },
+  { type: 'application/rtf', patterns: [[0, '{\\rtf']] },
+  { type: 'application/zip', patterns: [[0, [0x50, 0x4b, 0x03, 0x04]]] },
+  { type: 'application/gzip', patterns: [[0, [0x1f, 0x8b]]] },
+  { type: 'application/x-cfb', patterns: [[0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]]] },
+];
+
+/**
+ * Matches the start of an SVG document, after an optional
+ * XML declaration, comments, and doctype.
+ */
+const SVG = /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i;
+
+/**
+ * Infers MIME types from filenames and file signatures.
+ *
+ * Recognizes common image, video, audio, PDF, and office
+ * formats. Signatures take precedence over extensions,
+ * except where a container signature, such as ZIP for
+ * `.docx`, is refined by the extension, and where a text
+ * extension, such as `.csv`, overrides a weak signature.
+ */
+export class MimeDetector {
+  /**
+   * The number of leading bytes {@link MimeDetector.fromBytes} inspects.
+   */
+  static readonly sampleSize: number = 512;
+
+  /**
+   * Infers a MIME type from a file's leading bytes and its filename.
+   *
+   * @param {string} options.filename - The filename, including its extension.
+   * @param {Uint8Array} [options.bytes] - Optional leading bytes of the file.
+   *
+   * @returns {string | undefined} The MIME type, or `undefined` if it is not recognized.
+   */
+  static detect(options: { filename: string; bytes?: Uint8Array }): string | undefined {
+    const { filename, bytes } = options;
+    const signature = bytes !== undefined ? MimeDetector._signature({ bytes }) : undefined;
+    const sniffed = bytes !== undefined ? signature?.type ?? MimeDetector._svg({ bytes }) : undefined;
+    const named = MimeDetector.fromFilename({ filename });
+    const extension = MimeDetector._extension({ filename });
+
+    if (sniffed === undefined) {
+      return named;
+    }
+
+    if (named !== undefined && CONTAINERS[sniffed]?.includes(extension)) {
+      return named;
+    }
+
+    if (named !== undefined && signature?.weak === true && TEXT.includes(extension)) {
+      return named;
+    }
+
+    return sniffed;
+  }
+
+  /**
+   * Infers a MIME type from a filename's extension.
+   *
+   * @param {string} options.filename - The filename, including its extension.
+   *
+   * @returns {string | undefined} The MIME type, or `undefined` if the extension is not recognized.
+   */
+  static fromFilename(options: { filename: string }): string | undefined {
+    const { filename } = options;
+
+    return EXTENSIONS[MimeDetector._extension({ filename })];
+  }
+
+  /**
+   * Infers a MIME type from a file's signature.
+   *
+   * @param {Uint8Array} options.bytes - The leading bytes of the file.
+   *
+   * @returns {string | undefined} The MIME type, or `undefined` if the signature is not recognized.
+   */
+  static fromBytes(options: { bytes: Uint8Array }): string | undefined {
+    const { bytes } = options;
+
+    return MimeDetector._signature({ bytes })?.type ?? MimeDetector._svg({ bytes });
+  }
+
+  /**
+   * Finds the first known signature a file starts with.
+   *
+   * @param {Uint8Array} options.bytes - The leading bytes of the file.
+   *
+   * @returns {Signature | undefined} The matching signature, or `undefined` if none matches.
+   */
+  private static _signature(options: { bytes: Uint8Array }): Signature | undefined {
+    const { bytes } = options;
+
+    return SIGNATURES.find(({ patterns }) => patterns.every(([offset, pattern]) => {
+      const expected = typeof pattern === 'string' ? Array.from(pattern, char => char.charCodeAt(0)) : pattern;
+
+      return expected.every((byte, i) => bytes[offset + i] === byte);
+    }));
+  }
+
+  /**
+   * Checks whether a file is an SVG document.
+   *
+   * @param {Uint8Array} options.bytes - The leading bytes of the file.
+   *
+   * @returns {string | undefined} `image/svg+xml`, or `undefined` if the file is not an SVG.
+   */
+  private static _svg(options: { bytes: Uint8Array }): string | undefined {
+    const { bytes } = options;
+    const text = new TextDecoder().decode(bytes.subarray(0, MimeDetector.sampleSize));
+
+    return SVG.test(text) ? 'image/svg+xml' : undefined;
+  }
+
+  /**
+   * Extracts the lowercase extension of a filename.
+   *
+   * @param {string} options.filename - The filename.
+   *
+   * @returns {string} The extension without the dot, or an empty string.
+   */
+  private static _extension(options: { filename: string }): string {
+    const { filename } = options;
+    const dot = filename.lastIndexOf('.');
+
+    return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+  }
+}
@@ -0,0 +1,73 @@
+import type { IFileUpload } from "../contracts/IFileUpload.js";
+import type { Json } from "../../types/Json.js";
+import type { UploadProgressListener } from "../../public/upload/UploadProgress.js";
+import { JsonParser } from "../utils/JsonParser.js";
+
+/**
+ * Encodes a file upload as a streaming `multipart/form-data` body.
+ *
+ * Unlike {@link FormDataBuilder}, the file is never buffered:
+ * its chunks are read as `fetch` consumes the body, so files
+ * larger than memory can be uploaded. Sends the same `_payload`
+ * and `file` fields Payload CMS expects.
+ */
+export class MultipartEncoder {
+  /**
+   * Encodes a file and document data as a multipart stream.
+   *
+   * @param {IFileUpload} options.file - The file to upload.
+   * @param {Json} options.data - The document data to include alongside the file.
+   * @param {UploadProgressListener} [options.onProgress] - Optional listener notified as file bytes are sent.
+   *
+   * @returns {{ body: ReadableStream<Uint8Array>; contentType: string }} The body and its `Content-Type`, including the boundary.
+   */
+  static encode(options: { file: IFileUpload; data: Json; onProgress?: UploadProgressListener }): { body: ReadableStream<Uint8Array>; contentType: string } {
+    const { file, data, onProgress } = options;
+    const boundary = `----PayloadFormBoundary${crypto.randomUUID().replace(/-/g, '')}`;
+    const encoder = new TextEncoder();
+    const filename = file.filename.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+    const type = file.mimeType ?? (file.content instanceof Blob && file.content.type !== '' ? file.content.type : 'application/octet-stream');
+
+    const head = encoder.encode([
+      `--${boundary}\r\n`,
+      `Content-Disposition: form-data; name="_payload"\r\n\r\n`,
+      `${JsonParser.stringify(data)}\r\n`,
+      `--${boundary}\r\n`,
+      `Content-Disposition: form-data; name="file"; filename="${filename}"\r\n`,
+      `Content-Type: ${type}\r\n\r\n`,
+    ].join(''));
+    const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+    const content = file.content instanceof Blob ? file.content.stream() : file.content;
+    const totalBytes = file.size;
+
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    let bytesSent = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(head);
+      },
+      async pull(controller) {
+        reader ??= content.getReader();
+
+        const { value, done } = await reader.read();
+
+        if (done) {
+          controller.enqueue(tail);
+          controller.close();
+          return;
+        }
+
+        bytesSent += value.byteLength;
+        controller.enqueue(value);
+        onProgress?.({ bytesSent, totalBytes });
+      },
+      async cancel(reason) {
+        await (reader ?? content).cancel(reason);
+      },
+    });
+
+    return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Combines a caller's abort signal with an optional timeout.
+ *
+ * Exposes a single `signal` that aborts when either the
+ * caller aborts or the timeout elapses, and records which
+ * of the two happened.
+ */
+export class Deadline {
+  public readonly signal: AbortSignal | undefined;
+  private readonly _startedAt: number = Date.now();
+  private readonly _controller: AbortController | undefined;
+  private readonly _callerSignal: AbortSignal | undefined;
+  private _timer: ReturnType<typeof setTimeout> | undefined = undefined;
+  private _timedOut: boolean = false;
+
+ /**
+  * Creates a new Deadline and starts its timer.
+  *
+  * @param {number} [options.timeoutMs] - Optional timeout in milliseconds.
+  * @param {AbortSignal} [options.signal] - Optional caller abort signal.
+  */
+  constructor(options: { timeoutMs?: number; signal?: AbortSignal }) {
+    const { timeoutMs, signal } = options;
+
+    this._callerSignal = signal;
+
+    if (timeoutMs === undefined) {
+      this.signal = signal;
+      return;
+    }
+
+    const controller = new AbortController();
+
+    this._controller = controller;
+    this.signal = controller.signal;
+
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+      return;
+    }
+
+    signal?.addEventListener('abort', this._onCallerAbort, { once: true });
+
+    this._timer = setTimeout(() => {
+      this._timedOut = true;
+      controller.abort(new DOMException('The operation timed out.', 'TimeoutError'));
+    }, timeoutMs);
+  }
+
+  /**
+   * Whether the timeout elapsed before the caller aborted.
+   */
+  get timedOut(): boolean {
+    return this._timedOut;
+  }
+
+  /**
+   * Milliseconds since the deadline was created.
+   */
+  get elapsedMs(): number {
+    return Date.now() - this._startedAt;
+  }
+
+  /**
+   * Stops the timer and detaches from the caller's signal.
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    clearTimeout(this._timer);
+    this._callerSignal?.removeEventListener('abort', this._onCallerAbort);
+  }
+
+  private _onCallerAbort = (): void => {
+    clearTimeout(this._timer);
+    this._controller?.abort(this._callerSignal?.reason);
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Abortable timer helpers.
+ */
+export class Delay {
+  /**
+   * Resolves after the given number of milliseconds.
+   *
+   * Rejects with the signal's abort reason if the signal
+   * is aborted before or while waiting.
+   *
+   * @param {number} options.ms - The delay in milliseconds.
+   * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   *
+   * @returns {Promise<void>} Resolves once the delay has elapsed.
+   */
+  static wait(options: { ms: number; signal?: AbortSignal }): Promise<void> {
+    const { ms, signal } = options;
+
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
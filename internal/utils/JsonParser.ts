@@ -1,4 +1,4 @@
-import type { Json } from "../../types/Json.js";
+import type { Json, JsonValue } from "../../types/Json.js";
 
 /**
  * Centralizes JSON serialization and deserialization.
@@ -8,13 +8,13 @@ import type { Json } from "../../types/Json.js";
  */
 export class JsonParser {
   /**
-   * Serializes a Json object to a JSON string.
+   * Serializes a JSON value to a JSON string.
    *
-   * @param {Json} data - The object to serialize.
+   * @param {JsonValue} data - The value to serialize.
    *
    * @returns {string} The JSON string representation.
    */
-  static stringify(data: Json): string {
+  static stringify(data: JsonValue): string {
     return JSON.stringify(data);
   }
 
@@ -41,4 +41,23 @@ export class JsonParser {
 
     return parsed as Json;
   }
+
+  /**
+   * Parses a JSON string into any JSON value.
+   *
+   * Unlike {@link JsonParser.parse}, top-level arrays and
+   * primitives are returned as-is. Returns `undefined` if
+   * the text is empty.
+   *
+   * @param {string} text - The JSON string to parse.
+   *
+   * @returns {JsonValue | undefined} The parsed value, or `undefined`.
+   */
+  static parseValue(text: string): JsonValue | undefined {
+    if (text.length === 0) {
+      return undefined;
+    }
+
+    return JSON.parse(text) as JsonValue;
+  }
 }
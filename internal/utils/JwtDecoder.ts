@@ -0,0 +1,31 @@
+/**
+ * Reads claims from a JSON Web Token without verifying it.
+ */
+export class JwtDecoder {
+  /**
+   * Reads the `exp` claim of a token.
+   *
+   * @param {string} options.token - The encoded token.
+   *
+   * @returns {number | undefined} The expiry in seconds since the epoch, or `undefined` if absent or unreadable.
+   */
+  static exp(options: { token: string }): number | undefined {
+    const { token } = options;
+    const segment = token.split('.')[1];
+
+    if (segment === undefined) {
+      return undefined;
+    }
+
+    try {
+      const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+      const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+      const payload = JSON.parse(atob(padded));
+
+      return typeof payload?.exp === 'number' ? payload.exp : undefined;
+    }
+    catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Parses the HTTP `Retry-After` response header.
+ */
+export class RetryAfterParser {
+  /**
+   * Converts a `Retry-After` header value into a delay.
+   *
+   * Supports both the delay-seconds and HTTP-date forms.
+   *
+   * @param {Response | undefined} options.response - The response carrying the header.
+   *
+   * @returns {number | undefined} The requested delay in milliseconds, or `undefined`.
+   */
+  static parse(options: { response: Response | undefined }): number | undefined {
+    const { response } = options;
+    const header = response?.headers.get('Retry-After') ?? null;
+
+    if (header === null || header.trim() === '') {
+      return undefined;
+    }
+
+    const seconds = Number(header);
+
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+
+    if (Number.isNaN(date)) {
+      return undefined;
+    }
+
+    return Math.max(0, date - Date.now());
+  }
+}
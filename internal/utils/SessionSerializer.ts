@@ -0,0 +1,51 @@
+import { DocumentDTO } from "../../public/models/collection/DocumentDTO.js";
+import type { SessionState } from "../../public/session/SessionState.js";
+import type { Json } from "../../types/Json.js";
+
+/**
+ * Converts a {@link SessionState} to and from JSON text
+ * for storage adapters.
+ */
+export class SessionSerializer {
+  /**
+   * Serializes a session, keeping the raw user JSON.
+   *
+   * @param {SessionState} options.state - The session to serialize.
+   *
+   * @returns {string} The JSON text.
+   */
+  static stringify(options: { state: SessionState }): string {
+    const { state } = options;
+
+    return JSON.stringify({ slug: state.slug, token: state.token, exp: state.exp, user: state.user.json });
+  }
+
+  /**
+   * Parses a serialized session.
+   *
+   * @param {string} options.text - The JSON text.
+   *
+   * @returns {SessionState | undefined} The session, or `undefined` if the text is malformed.
+   */
+  static parse(options: { text: string }): SessionState | undefined {
+    const { text } = options;
+
+    try {
+      const data = JSON.parse(text);
+
+      if (typeof data?.slug !== 'string' || typeof data.token !== 'string') {
+        return undefined;
+      }
+
+      return {
+        slug: data.slug,
+        token: data.token,
+        exp: typeof data.exp === 'number' ? data.exp : 0,
+        user: DocumentDTO.fromJson((data.user ?? {}) as Json),
+      };
+    }
+    catch {
+      return undefined;
+    }
+  }
+}
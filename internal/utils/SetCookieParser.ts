@@ -0,0 +1,132 @@
+import type { Cookie } from "../../public/cookies/Cookie.js";
+
+/**
+ * Parses HTTP `Set-Cookie` response headers.
+ */
+export class SetCookieParser {
+  /**
+   * Reads every `Set-Cookie` header from a response.
+   *
+   * Uses `Headers.getSetCookie()` where available, since
+   * a joined `Set-Cookie` value cannot be split reliably.
+   *
+   * @param {Response} options.response - The response carrying the headers.
+   *
+   * @returns {string[]} The raw header values.
+   */
+  static headers(options: { response: Response }): string[] {
+    const { response } = options;
+
+    if (typeof response.headers.getSetCookie === 'function') {
+      return response.headers.getSetCookie();
+    }
+
+    const header = response.headers.get('Set-Cookie');
+
+    return header === null ? [] : [header];
+  }
+
+  /**
+   * Converts a `Set-Cookie` header value into a {@link Cookie}.
+   *
+   * @param {string} options.header - The raw header value.
+   * @param {URL} options.url - The URL of the request that received the header.
+   *
+   * @returns {Cookie | undefined} The cookie, or `undefined` if the header is malformed or its `Domain` does not match the URL.
+   */
+  static parse(options: { header: string; url: URL }): Cookie | undefined {
+    const { header, url } = options;
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+
+    if (separator < 1) {
+      return undefined;
+    }
+
+    const host = url.hostname.toLowerCase();
+    const cookie: Cookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: host,
+      hostOnly: true,
+      path: SetCookieParser._defaultPath({ url }),
+      secure: false,
+      expiresAt: undefined,
+    };
+
+    let maxAge: number | undefined;
+    let expires: number | undefined;
+
+    for (const attribute of attributes) {
+      const index = attribute.indexOf('=');
+      const name = (index === -1 ? attribute : attribute.slice(0, index)).trim().toLowerCase();
+      const value = index === -1 ? '' : attribute.slice(index + 1).trim();
+
+      switch (name) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+
+          if (domain === '') {
+            break;
+          }
+
+          if (host !== domain && !host.endsWith(`.${domain}`)) {
+            return undefined;
+          }
+
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) {
+            cookie.path = value;
+          }
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'max-age': {
+          const seconds = Number(value);
+
+          if (Number.isInteger(seconds)) {
+            maxAge = seconds;
+          }
+          break;
+        }
+        case 'expires': {
+          const date = Date.parse(value);
+
+          if (!Number.isNaN(date)) {
+            expires = date;
+          }
+          break;
+        }
+      }
+    }
+
+    // `Max-Age` takes precedence over `Expires`; zero or less expires immediately.
+    if (maxAge !== undefined) {
+      cookie.expiresAt = maxAge > 0 ? Date.now() + maxAge * 1000 : 0;
+    }
+    else {
+      cookie.expiresAt = expires;
+    }
+
+    return cookie;
+  }
+
+  /**
+   * Computes the default cookie path for a request URL.
+   *
+   * @param {URL} options.url - The request URL.
+   *
+   * @returns {string} The directory of the URL path.
+   */
+  private static _defaultPath(options: { url: URL }): string {
+    const { url } = options;
+    const index = url.pathname.lastIndexOf('/');
+
+    return index <= 0 ? '/' : url.pathname.slice(0, index);
+  }
+}
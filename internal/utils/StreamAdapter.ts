@@ -0,0 +1,40 @@
+/**
+ * Adapts async iterables, such as Node.js `Readable` streams,
+ * to web `ReadableStream`s without importing Node.js modules.
+ */
+export class StreamAdapter {
+  /**
+   * Wraps an async iterable of byte chunks in a `ReadableStream`.
+   *
+   * The iterator is created on the first read, so file streams
+   * are not opened until the upload starts, and is closed
+   * when the stream is cancelled.
+   *
+   * @param {AsyncIterable<Uint8Array>} options.iterable - The source of byte chunks.
+   *
+   * @returns {ReadableStream<Uint8Array>} A stream of the chunks.
+   */
+  static fromAsyncIterable(options: { iterable: AsyncIterable<Uint8Array> }): ReadableStream<Uint8Array> {
+    const { iterable } = options;
+
+    let iterator: AsyncIterator<Uint8Array> | undefined;
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        iterator ??= iterable[Symbol.asyncIterator]();
+
+        const { value, done } = await iterator.next();
+
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(value);
+      },
+      async cancel(reason) {
+        await iterator?.return?.(reason);
+      },
+    });
+  }
+}
@@ -1,4 +1,6 @@
 import { ErrorResultDTO } from './models/errors/ErrorResultDTO.js';
+import { PayloadSDKError } from './errors/PayloadSDKError.js';
+import type { HttpMethod } from './enums/HttpMethod.js';
 
 /**
  * A structured error thrown on failed Payload CMS requests.
@@ -9,7 +11,7 @@ import { ErrorResultDTO } from './models/errors/ErrorResultDTO.js';
  *
  * Thrown by {@link PayloadSDK} on non-2xx responses.
  */
-export class PayloadError extends Error {
+export class PayloadError extends PayloadSDKError {
   public readonly statusCode: number;
   public readonly response: Response | undefined;
 
@@ -37,8 +39,14 @@ export class PayloadError extends Error {
     statusCode: number;
     response?: Response;
     body?: string;
+    method?: HttpMethod;
+    url?: string;
   }) {
-    super(`[PayloadError] Request failed with status: ${options.statusCode}`);
+    super({
+      message: `[PayloadError] Request failed with status: ${options.statusCode}`,
+      method: options.method,
+      url: options.url,
+    });
 
     this.name = 'PayloadError';
     this.statusCode = options.statusCode;
@@ -80,4 +88,12 @@ export class PayloadError extends Error {
 
     Object.setPrototypeOf(this, PayloadError.prototype);
   }
+
+  /**
+   * `true` for request timeouts, rate limits, and
+   * transient gateway failures (`408`, `429`, `502`, `503`, `504`).
+   */
+  get isRetryable(): boolean {
+    return [408, 429, 502, 503, 504].includes(this.statusCode);
+  }
 }
@@ -11,30 +11,115 @@ import { QueryBuilder } from "./query/QueryBuilder.js";
 import { QueryStringEncoder } from "../internal/utils/QueryStringEncoder.js";
 import { ApiKeyAuth } from "./config/ApiKeyAuth.js";
 import { JwtAuth } from "./config/JwtAuth.js";
-import type { Json } from "../types/Json.js";
+import { CookieAuth } from "./config/CookieAuth.js";
+import type { RefreshingJwtAuth } from "./config/RefreshingJwtAuth.js";
+import type { Json, JsonValue } from "../types/Json.js";
+import type { FetchFunction } from "../types/FetchFunction.js";
 import { FileUpload } from "./upload/FileUpload.js";
 import { FormDataBuilder } from "../internal/upload/FormDataBuilder.js";
+import { MultipartEncoder } from "../internal/upload/MultipartEncoder.js";
+import type { UploadProgressListener } from "./upload/UploadProgress.js";
 import { HttpMethod } from "./enums/HttpMethod.js";
-import type { IAuthCredential } from "../internal/contracts/IAuthCredential.js";
+import type { IAuthCredential } from "./contracts/IAuthCredential.js";
 import { JsonParser } from "../internal/utils/JsonParser.js";
 import type { RequestConfig } from "./config/RequestConfig.js";
+import { ResponseType } from "./enums/ResponseType.js";
+import type { ResponseBody } from "./response/ResponseBody.js";
+import type { DownloadType, FileDownload } from "./response/FileDownload.js";
+import type { Middleware, MiddlewareRequest, MiddlewareResponse } from "./middleware/Middleware.js";
+import { MiddlewarePipeline } from "../internal/middleware/MiddlewarePipeline.js";
+import type { RetryPolicy } from "./config/RetryPolicy.js";
+import type { RequestLimiter } from "./config/RequestLimiter.js";
+import type { RequestLogger } from "./logging/RequestLogger.js";
+import type { SessionManager } from "./session/SessionManager.js";
+import { JwtDecoder } from "../internal/utils/JwtDecoder.js";
+import { Delay } from "../internal/utils/Delay.js";
+import { Deadline } from "../internal/utils/Deadline.js";
+import type { RequestOptions } from "./config/RequestOptions.js";
+import type { ClientDefaults } from "./config/ClientDefaults.js";
+import type { ResponseMeta, ResponseResult } from "./response/ResponseMeta.js";
+import { PayloadTimeoutError } from "./errors/PayloadTimeoutError.js";
+import { PayloadSDKError } from "./errors/PayloadSDKError.js";
+import { PayloadNetworkError } from "./errors/PayloadNetworkError.js";
+import { PayloadAbortError } from "./errors/PayloadAbortError.js";
+import { PayloadParseError } from "./errors/PayloadParseError.js";
+import { PayloadErrorFactory } from "../internal/errors/PayloadErrorFactory.js";
+import type { ResponseCache } from "./cache/ResponseCache.js";
+import type { CollectionDocument, CollectionSlug, CreateData, GlobalDocument, GlobalSlug, PayloadConfig, UntypedConfig, UpdateData } from "./config/PayloadConfig.js";
+import { RequestDeduplicator } from "../internal/middleware/RequestDeduplicator.js";
+
+/**
+ * The `collection` or `global` a request targets.
+ */
+type CacheScope = { slug: string; global?: boolean };
 
 /**
  * HTTP client for the Payload CMS REST API.
  *
  * Provides typed methods for `collections`, `globals`,
  * `auth`, `versions`, and file uploads.
+ *
+ * Pass a {@link PayloadConfig}, such as the `Config` generated
+ * in `payload-types.ts`, to type slugs, data, and documents.
  */
-export class PayloadSDK {
+export class PayloadSDK<TConfig extends PayloadConfig = UntypedConfig> {
   private _baseUrl: string;
   private _headers: Record<string, string> = {};
   private _auth: IAuthCredential | undefined = undefined;
   private _encoder: QueryStringEncoder = new QueryStringEncoder();
+  private _fetch: FetchFunction;
+  private _pipeline: MiddlewarePipeline = new MiddlewarePipeline();
+  private _retry: RetryPolicy | undefined;
+  private _timeoutMs: number | undefined;
+  private _cache: ResponseCache | undefined;
+  private _deduplicator: RequestDeduplicator | undefined;
+  private _limiter: RequestLimiter | undefined;
+  private _logger: RequestLogger | undefined;
+  private _session: SessionManager | undefined;
+  private _ownsSession: boolean = true;
+  private _identities: Map<string, IAuthCredential> = new Map();
+  private _identity: string | undefined = undefined;
+  private _defaults: ClientDefaults;
+  private _onResponse: ((response: ResponseMeta) => void) | undefined = undefined;
 
-  constructor(options: { baseUrl: string }) {
-    const { baseUrl } = options;
+ /**
+  * Creates a new PayloadSDK.
+  *
+  * @param {string} options.baseUrl - The Payload CMS instance URL.
+  * @param {FetchFunction} [options.fetch] - Optional transport used for every request. Defaults to the global `fetch`.
+  * @param {RetryPolicy} [options.retry] - Optional policy for retrying transient failures. Disabled by default.
+  * @param {number} [options.timeoutMs] - Optional default timeout in milliseconds for every request.
+  * @param {ResponseCache} [options.cache] - Optional cache for read operations. Disabled by default.
+  * @param {boolean} [options.dedupe=false] - Coalesce concurrent identical `GET` requests into one network call.
+  * @param {RequestLimiter} [options.limiter] - Optional concurrency and rate limit for outgoing requests.
+  * @param {RequestLogger} [options.logger] - Optional {@link RequestLogger} that traces every request sent.
+  * @param {SessionManager} [options.session] - Optional {@link SessionManager} kept in sync by the `auth` methods.
+  * @param {ClientDefaults} [options.defaults] - Optional {@link ClientDefaults} query parameters for every request.
+  */
+  constructor(options: {
+    baseUrl: string;
+    fetch?: FetchFunction;
+    retry?: RetryPolicy;
+    timeoutMs?: number;
+    cache?: ResponseCache;
+    dedupe?: boolean;
+    limiter?: RequestLimiter;
+    logger?: RequestLogger;
+    session?: SessionManager;
+    defaults?: ClientDefaults;
+  }) {
+    const { baseUrl, fetch: transport, retry, timeoutMs, cache, dedupe = false, limiter, logger, session, defaults } = options;
 
     this._baseUrl = this._normalizeUrl({ url: baseUrl });
+    this._fetch = transport ?? ((input, init) => fetch(input, init));
+    this._retry = retry;
+    this._timeoutMs = timeoutMs;
+    this._cache = cache;
+    this._deduplicator = dedupe ? new RequestDeduplicator() : undefined;
+    this._limiter = limiter;
+    this._logger = logger;
+    this._session = session;
+    this._defaults = defaults ?? {};
   }
 
  /**
@@ -95,25 +180,331 @@ export class PayloadSDK {
  /**
   * Sets a JWT bearer token credential for all subsequent requests.
   *
-  * @param {JwtAuth} options.auth - The {@link JwtAuth} credential to use.
+  * @param {JwtAuth | RefreshingJwtAuth} options.auth - The {@link JwtAuth} or {@link RefreshingJwtAuth} credential to use.
   *
   * @returns {void}
   */
-  public setJwtAuth(options: { auth: JwtAuth }): void {
+  public setJwtAuth(options: { auth: JwtAuth | RefreshingJwtAuth }): void {
     const { auth } = options;
 
     this._auth = auth;
   }
 
  /**
-  * Clears the current authentication credential.
+  * Sets a cookie-based credential for all subsequent requests.
+  *
+  * @param {CookieAuth} options.auth - The {@link CookieAuth} credential to use.
+  *
+  * @returns {void}
+  */
+  public setCookieAuth(options: { auth: CookieAuth }): void {
+    const { auth } = options;
+
+    this._auth = auth;
+  }
+
+ /**
+  * Sets any credential for all subsequent requests.
+  *
+  * Accepts the built-in credentials as well as custom
+  * {@link IAuthCredential} implementations.
+  *
+  * @param {IAuthCredential} options.auth - The {@link IAuthCredential} to use.
+  *
+  * @returns {void}
+  */
+  public setAuth(options: { auth: IAuthCredential }): void {
+    const { auth } = options;
+
+    this._auth = auth;
+  }
+
+ /**
+  * Registers the credential for an `auth`-enabled `collection`.
+  *
+  * Registered identities are used instead of the default
+  * credential by calls that pass `identity`, and by clients
+  * scoped with {@link PayloadSDK.as}.
+  *
+  * The identity registry is shared with the parent and every
+  * derived client, so registering on any of them rotates the
+  * credential for all.
+  *
+  * @param {string} options.slug - The `auth`-enabled `collection` slug.
+  * @param {IAuthCredential} options.auth - The {@link IAuthCredential} to use for it.
+  *
+  * @returns {void}
+  */
+  public setIdentity(options: { slug: string; auth: IAuthCredential }): void {
+    const { slug, auth } = options;
+
+    this._identities.set(slug, auth);
+  }
+
+ /**
+  * Removes the credential registered for an `auth`-enabled `collection`.
+  *
+  * The identity registry is shared with the parent and every
+  * derived client, so the identity is removed from all.
+  *
+  * @param {string} options.slug - The `auth`-enabled `collection` slug.
+  *
+  * @returns {void}
+  */
+  public clearIdentity(options: { slug: string }): void {
+    const { slug } = options;
+
+    this._identities.delete(slug);
+  }
+
+ /**
+  * Creates a client that acts as a registered identity.
+  *
+  * The scoped client shares this client's transport, cache,
+  * and registered identities, starts with its middlewares,
+  * and sends every call with the credential registered for
+  * `slug` unless the call passes its own `identity`.
+  *
+  * @param {string} options.slug - The `auth`-enabled `collection` slug registered with {@link PayloadSDK.setIdentity}.
+  *
+  * @returns {PayloadSDK<TConfig>} The scoped client.
+  */
+  public as(options: { slug: string }): PayloadSDK<TConfig> {
+    const { slug } = options;
+    const client = this._derive();
+
+    client._identity = slug;
+
+    return client;
+  }
+
+ /**
+  * Creates a client that uses its own credential.
+  *
+  * The derived client shares this client's transport, cache,
+  * and registered identities, and starts with its middlewares,
+  * but not its credential, identity, or session. This
+  * client is left untouched.
+  *
+  * @param {IAuthCredential | null} options.auth - The {@link IAuthCredential} to use, or `null` for none.
+  *
+  * @returns {PayloadSDK<TConfig>} The derived client.
+  */
+  public withAuth(options: { auth: IAuthCredential | null }): PayloadSDK<TConfig> {
+    const { auth } = options;
+    const client = this._derive();
+
+    client._auth = auth ?? undefined;
+    client._identity = undefined;
+    client._session = undefined;
+
+    return client;
+  }
+
+ /**
+  * Creates a client with additional headers.
+  *
+  * The headers are merged over this client's headers.
+  * This client is left untouched.
+  *
+  * @param {Record<string, string>} options.headers - The headers to add.
+  *
+  * @returns {PayloadSDK<TConfig>} The derived client.
+  */
+  public withHeaders(options: { headers: Record<string, string> }): PayloadSDK<TConfig> {
+    const { headers } = options;
+    const client = this._derive();
+
+    client._headers = { ...this._headers, ...headers };
+
+    return client;
+  }
+
+ /**
+  * Creates a client with additional {@link ClientDefaults}.
+  *
+  * The defaults are merged over this client's defaults.
+  * This client is left untouched.
+  *
+  * @param {string} [options.locale] - The `locale` to read and write.
+  * @param {string} [options.fallbackLocale] - The `fallback-locale` to use.
+  * @param {number} [options.depth] - The relationship population `depth`.
+  * @param {boolean} [options.draft] - Whether to read and write `draft` versions.
+  *
+  * @returns {PayloadSDK<TConfig>} The derived client.
+  */
+  public withDefaults(options: ClientDefaults): PayloadSDK<TConfig> {
+    const client = this._derive();
+
+    client._defaults = { ...this._defaults, ...options };
+
+    return client;
+  }
+
+ /**
+  * Runs a call and returns its result with the response metadata.
+  *
+  * The call receives a derived client that records the
+  * status, headers, duration, and URL of its response.
+  * If the call sends several requests, the response of
+  * the last one to complete is returned.
+  *
+  * @param {(client: PayloadSDK<TConfig>) => Promise<T>} options.call - The call to run, such as `client => client.find({ slug })`.
+  *
+  * @returns {Promise<ResponseResult<T>>} The call's result and {@link ResponseMeta}.
+  *
+  * @throws {Error} If the call completes without sending a request.
+  */
+  public async withResponse<T>(options: { call: (client: PayloadSDK<TConfig>) => Promise<T> }): Promise<ResponseResult<T>> {
+    const { call } = options;
+    const client = this._derive();
+
+    let response: ResponseMeta | undefined;
+
+    client._onResponse = (meta) => {
+      response = meta;
+    };
+
+    const data = await call(client);
+
+    if (response === undefined) {
+      throw new Error('[PayloadError] withResponse call did not send a request');
+    }
+
+    return { data, response };
+  }
+
+ /**
+  * Copies this client without copying its shared components.
+  *
+  * The copy references the same transport, cache,
+  * deduplicator, limiter, logger, session, and identity
+  * registry. It starts with this client's middlewares in a
+  * pipeline of its own, so {@link PayloadSDK.use} on either
+  * client does not affect the other. Reassigning a field on
+  * the copy does not affect this client. The copy does not
+  * own the session, so it never clears it on {@link PayloadSDK.clearAuth}.
+  *
+  * @returns {PayloadSDK<TConfig>} The copy.
+  */
+  private _derive(): PayloadSDK<TConfig> {
+    const client: PayloadSDK<TConfig> = Object.assign(Object.create(PayloadSDK.prototype), this);
+
+    client._pipeline = this._pipeline.copy();
+    client._ownsSession = false;
+
+    return client;
+  }
+
+  /**
+   * The {@link SessionManager} this client keeps in sync, or `undefined` if none.
+   */
+  public get session(): SessionManager | undefined {
+    return this._session;
+  }
+
+ /**
+  * Clears the current authentication credential and session.
   *
   * Subsequent requests will be sent without authorization headers.
+  * The session is cleared in memory immediately; its stored copy
+  * is removed in the background, ignoring storage failures. To wait
+  * for the removal or observe its errors, `await` {@link SessionManager.clear}
+  * on {@link PayloadSDK.session} instead. A derived client stops
+  * using the session it shares with its parent instead of clearing it.
   *
   * @returns {void}
   */
   public clearAuth(): void {
     this._auth = undefined;
+
+    if (!this._ownsSession) {
+      this._session = undefined;
+
+      return;
+    }
+
+    this._session?.clear().catch(() => undefined);
+  }
+
+ /**
+  * Resolves the credential for the next request.
+  *
+  * A per-call override wins, then a requested identity's
+  * registered credential. Otherwise an explicitly set
+  * credential takes precedence over the {@link SessionManager}
+  * token, which is restored from storage before the first request.
+  *
+  * @param {string} [options.identity] - The `auth`-enabled `collection` slug to act as.
+  * @param {IAuthCredential | null} [options.override] - A per-call credential, or `null` to send no auth.
+  * @param {HttpMethod} options.method - The request method, for error context.
+  * @param {string} options.url - The request URL, for error context.
+  *
+  * @returns {Promise<IAuthCredential | undefined>} The credential, or `undefined` if unauthenticated.
+  *
+  * @throws {PayloadSDKError} If no credential is registered for the identity.
+  */
+  private async _resolveAuth(options: { identity?: string; override?: IAuthCredential | null; method: HttpMethod; url: string }): Promise<IAuthCredential | undefined> {
+    const { identity, override, method, url } = options;
+
+    if (override !== undefined) {
+      return override ?? undefined;
+    }
+
+    if (identity !== undefined) {
+      const auth = this._identities.get(identity);
+
+      if (auth === undefined) {
+        throw new PayloadSDKError({ method, url, message: `[PayloadError] No credential registered for identity: ${identity}` });
+      }
+
+      return auth;
+    }
+
+    if (this._auth !== undefined) {
+      return this._auth;
+    }
+
+    await this._session?.restore();
+
+    return this._session?.credential;
+  }
+
+ /**
+  * Returns the {@link SessionManager} an `auth` call may update.
+  *
+  * Calls made as an identity or with a per-call credential
+  * authenticate someone other than the session user, so they
+  * leave the session untouched.
+  *
+  * @param {RequestOptions} options - The call's {@link RequestOptions}.
+  *
+  * @returns {SessionManager | undefined} The session, or `undefined` if the call must not touch it.
+  */
+  private _sessionFor(options: RequestOptions): SessionManager | undefined {
+    if (options.auth !== undefined || (options.identity ?? this._identity) !== undefined) {
+      return undefined;
+    }
+
+    return this._session;
+  }
+
+ /**
+  * Appends a middleware to the request pipeline.
+  *
+  * Middlewares run in the order they are added and wrap
+  * every request sent by this client. Derived clients
+  * inherit the middlewares added before they were created;
+  * adding one to a derived client leaves its parent untouched.
+  *
+  * @param {Middleware} options.middleware - The {@link Middleware} to append.
+  *
+  * @returns {void}
+  */
+  public use(options: { middleware: Middleware }): void {
+    const { middleware } = options;
+
+    this._pipeline.use({ middleware });
   }
 
  /**
@@ -121,24 +512,41 @@ export class PayloadSDK {
   *
   * An escape hatch for `Payload CMS` custom endpoints.
   * Uses the same headers, auth, and error handling
-  * but returns raw JSON instead of a DTO.
+  * but returns the raw body instead of a DTO.
+  *
+  * JSON objects and arrays are serialized; `FormData`, `Blob`
+  * and `URLSearchParams` bodies let `fetch` set the content
+  * type, and string bodies are sent as `text/plain` unless
+  * the call sets its own `Content-Type` header. The
+  * {@link ResponseType} selects how the response is read.
   *
   * @param {RequestConfig} config - The request configuration.
   * @param {AbortSignal} [signal] - Optional abort signal for cancellation.
   *
-  * @returns {Promise<Json | undefined>} The parsed JSON response, or `undefined` for empty bodies.
+  * @returns {Promise<ResponseBody<T>>} The response body, read as the requested {@link ResponseType}.
   */
-  async request(config: RequestConfig, signal?: AbortSignal): Promise<Json | undefined> {
-    const { method, path, body, query } = config;
+  async request<T extends ResponseType = ResponseType.Json>(config: RequestConfig<T>, signal?: AbortSignal): Promise<ResponseBody<T>> {
+    const { method, path, body, query, responseType, ...requestOptions } = config;
     const url = this._appendQueryString({ url: `${this._baseUrl}${path}`, query });
 
     const requestInit: RequestInit = { method };
+    let headers = requestOptions.headers;
+
+    if (typeof body === 'string') {
+      requestInit.body = body;
 
-    if (body !== undefined) {
+      if (!Object.keys(headers ?? {}).some(name => name.toLowerCase() === 'content-type')) {
+        headers = { 'Content-Type': 'text/plain;charset=UTF-8', ...headers };
+      }
+    }
+    else if (body instanceof FormData || body instanceof Blob || body instanceof URLSearchParams) {
+      requestInit.body = body;
+    }
+    else if (body !== undefined) {
       requestInit.body = JsonParser.stringify(body);
     }
 
-    return this._request({ url, config: requestInit, signal });
+    return this._request({ url, config: requestInit, options: { ...requestOptions, headers, signal }, responseType });
   }
 
  /**
@@ -166,85 +574,482 @@ export class PayloadSDK {
   }
 
  /**
-  * Executes an HTTP request and returns parsed JSON.
+  * Appends the {@link ClientDefaults} the URL does not already set.
+  *
+  * URLs on another origin, such as files downloaded from a
+  * CDN, are left unchanged.
+  *
+  * @param {string} options.url - The request URL, possibly with a query string.
+  *
+  * @returns {string} The URL with the missing defaults appended.
+  */
+  private _appendDefaults(options: { url: string }): string {
+    const { url } = options;
+    const { locale, fallbackLocale, depth, draft } = this._defaults;
+    const { searchParams: present } = new URL(url);
+
+    if (this._isExternal({ url })) {
+      return url;
+    }
+
+    const missing = ([['locale', locale], ['fallback-locale', fallbackLocale], ['depth', depth], ['draft', draft]] as const)
+      .filter(([key, value]) => value !== undefined && !present.has(key))
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`);
+
+    if (missing.length === 0) {
+      return url;
+    }
+
+    return `${url}${url.includes('?') ? '&' : '?'}${missing.join('&')}`;
+  }
+
+ /**
+  * Checks whether a URL points outside the Payload CMS instance.
+  *
+  * @param {string} options.url - The absolute request URL.
+  *
+  * @returns {boolean} `true` if the URL is on another origin than the base URL.
+  */
+  private _isExternal(options: { url: string }): boolean {
+    const { url } = options;
+
+    return new URL(url).origin !== new URL(this._baseUrl).origin;
+  }
+
+ /**
+  * Encodes the body of a `create` or `update` request.
+  *
+  * Without a file the data is sent as JSON. A file held in
+  * memory is sent as `FormData`, which works in every runtime
+  * and can be replayed by retries; its progress is reported
+  * once, through the returned `sent` callback, when the upload
+  * completes. A streamed file is sent through the streaming
+  * {@link MultipartEncoder} with its boundary in `Content-Type`,
+  * reporting progress as `fetch` reads it.
   *
-  * Merges default headers, applies auth, parses the
-  * response body, and normalizes errors into
-  * {@link PayloadError} instances.
+  * @param {Json} options.data - The document data.
+  * @param {FileUpload} [options.file] - Optional file for `upload`-enabled collections.
+  * @param {UploadProgressListener} [options.onProgress] - Optional listener notified as file bytes are sent.
+  * @param {Record<string, string>} [options.headers] - The per-call headers.
+  *
+  * @returns {{ body: BodyInit; headers?: Record<string, string>; sent?: () => void }} The body, the per-call headers to send it with, and a callback to run once it is sent.
+  */
+  private _encodeBody(options: {
+    data: Json;
+    file?: FileUpload;
+    onProgress?: UploadProgressListener;
+    headers?: Record<string, string>;
+  }): { body: BodyInit; headers?: Record<string, string>; sent?: () => void } {
+    const { data, file, onProgress, headers } = options;
+
+    if (file === undefined) {
+      return { body: JsonParser.stringify(data), headers };
+    }
+
+    const { content } = file;
+
+    if (content instanceof Blob) {
+      const sent = onProgress !== undefined ? () => onProgress({ bytesSent: content.size, totalBytes: content.size }) : undefined;
+
+      return { body: FormDataBuilder.build({ file: { ...file, content }, data }), headers, sent };
+    }
+
+    const { body, contentType } = MultipartEncoder.encode({ file, data, onProgress });
+
+    return { body, headers: { ...headers, 'Content-Type': contentType } };
+  }
+
+ /**
+  * Executes an HTTP request and returns its body.
   *
   * @param {string} options.url - Fully resolved request URL.
   * @param {RequestInit} options.config - Optional `fetch` configuration overrides.
-  * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+  * @param {RequestOptions} [options.options] - Optional per-call {@link RequestOptions}.
+  * @param {boolean} [options.idempotent] - Whether the request is safe to repeat. Defaults to `true` for `GET`.
+  * @param {CacheScope} [options.scope] - The `collection` or `global` the request targets, used by the {@link ResponseCache}.
+  * @param {ResponseType} [options.responseType] - How to read the response body. Defaults to {@link ResponseType.Json}.
   *
-  * @returns {Promise<Json | undefined>} Parsed JSON, or `undefined` for empty responses.
+  * @returns {Promise<ResponseBody<T>>} The response body, or `undefined` for empty JSON responses.
+  */
+  private async _request<T extends ResponseType = ResponseType.Json>(options: {
+    url: string;
+    config?: RequestInit;
+    options?: RequestOptions;
+    idempotent?: boolean;
+    scope?: CacheScope;
+    responseType?: T;
+  }): Promise<ResponseBody<T>> {
+    const { body } = await this._exchange(options);
+
+    return body;
+  }
+
+ /**
+  * Executes an HTTP request and returns its body with the response.
+  *
+  * Appends the {@link ClientDefaults} and runs each
+  * attempt through {@link PayloadSDK._attempt},
+  * retrying transient failures according to the configured
+  * {@link RetryPolicy}, and normalizes the final error. The
+  * timeout spans every attempt, including backoff delays.
+  * A `401` is replayed once, with the renewed credential that
+  * sent it, without counting the replay as a retry attempt.
+  * Streamed bodies can only be sent once and are never replayed.
+  * The body is parsed as a JSON object unless another
+  * {@link ResponseType} is requested.
+  *
+  * @param {string} options.url - Fully resolved request URL.
+  * @param {RequestInit} options.config - Optional `fetch` configuration overrides.
+  * @param {RequestOptions} [options.options] - Optional per-call {@link RequestOptions}.
+  * @param {boolean} [options.idempotent] - Whether the request is safe to repeat. Defaults to `true` for `GET`.
+  * @param {CacheScope} [options.scope] - The `collection` or `global` the request targets, used by the {@link ResponseCache}.
+  * @param {ResponseType} [options.responseType] - How to read the response body. Defaults to {@link ResponseType.Json}.
+  *
+  * @returns {Promise<{ body: ResponseBody<T>; response: Response }>} The response body, or `undefined` for empty JSON responses, and the final response.
   *
   * @throws {PayloadError} On non-2xx responses.
-  * @throws {Error} On network, parsing, or abort failures.
+  * @throws {PayloadTimeoutError} When the request exceeds its timeout.
+  * @throws {PayloadSDKError} On network, parsing, or abort failures.
   */
-  private async _request(options: { url: string; config?: RequestInit; signal?: AbortSignal }): Promise<Json | undefined> {
-    const { url, config = {}, signal } = options;
+  private async _exchange<T extends ResponseType = ResponseType.Json>(options: {
+    url: string;
+    config?: RequestInit;
+    options?: RequestOptions;
+    idempotent?: boolean;
+    scope?: CacheScope;
+    responseType?: T;
+  }): Promise<{ body: ResponseBody<T>; response: Response }> {
+    const { options: requestOptions = {}, scope, responseType = ResponseType.Json } = options;
+    const raw = responseType !== ResponseType.Json;
+    const url = this._appendDefaults({ url: options.url });
+    const config: RequestInit = { ...requestOptions.init, ...options.config };
+    const method = (config.method ?? HttpMethod.GET) as HttpMethod;
+    const idempotent = options.idempotent ?? method === HttpMethod.GET;
+    const timeoutMs = requestOptions.timeoutMs ?? this._timeoutMs;
+    const deadline = new Deadline({ timeoutMs, signal: requestOptions.signal });
+    const signal = deadline.signal;
+    const identity = requestOptions.identity ?? this._identity;
+    const { auth: override, headers } = requestOptions;
+    const replayable = !(config.body instanceof ReadableStream);
+    const startedAt = Date.now();
+
+    let attempt = 1;
+    let renewed = false;
 
-    let response: Response;
-    let text: string;
-    let json: Json | undefined = undefined;
-    let defaultMethod: HttpMethod = HttpMethod.GET;
+    try {
+      while (true) {
+        let auth: IAuthCredential | undefined = undefined;
+
+        try {
+          auth = await this._resolveAuth({ identity, override, method, url });
+
+          const { response, json } = await this._attempt({ url, config, method, signal, scope, auth, headers, responseType });
+
+          if (method !== HttpMethod.GET && scope !== undefined) {
+            await this._cache?.invalidate(scope);
+          }
+
+          const body = raw ? await this._read({ response, responseType, method, url }) : json;
+
+          this._onResponse?.({
+            status: response.status,
+            headers: response.headers,
+            durationMs: Date.now() - startedAt,
+            url: response.url !== '' ? response.url : url,
+          });
+
+          return { body: body as ResponseBody<T>, response };
+        }
+        catch (error: unknown) {
+          if (replayable && !renewed && error instanceof PayloadError && error.statusCode === 401 && auth?.renew !== undefined) {
+            renewed = true;
+
+            if (await auth.renew({ url })) {
+              continue;
+            }
+          }
+
+          const policy = this._retry;
+          const retry = policy !== undefined
+            && replayable
+            && signal?.aborted !== true
+            && policy.shouldRetry({ error, method, idempotent, attempt });
+
+          if (!retry) {
+            throw error;
+          }
+
+          await Delay.wait({ ms: policy.delay({ error, attempt }), signal });
+          attempt++;
+        }
+      }
+    }
+    catch (error: unknown) {
+      if (deadline.timedOut) {
+        throw new PayloadTimeoutError({ method, url, timeoutMs: timeoutMs ?? 0, elapsedMs: deadline.elapsedMs, cause: error, attempts: attempt });
+      }
+
+      throw this._normalizeError({ error, method, url, attempts: attempt, signal: requestOptions.signal });
+    }
+    finally {
+      deadline.dispose();
+    }
+  }
+
+ /**
+  * Executes a single attempt of an HTTP request.
+  *
+  * Merges default headers (only per-call headers for URLs on
+  * another origin), applies the resolved credential, and runs the
+  * request through the {@link Middleware} pipeline. `GET`
+  * requests then pass through deduplication and the
+  * {@link ResponseCache}, when enabled, before being sent.
+  * Raw requests skip both, as their body can only be read once.
+  *
+  * @param {string} options.url - Fully resolved request URL.
+  * @param {RequestInit} options.config - The `fetch` configuration.
+  * @param {HttpMethod} options.method - The request method.
+  * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+  * @param {CacheScope} [options.scope] - The `collection` or `global` the request targets.
+  * @param {IAuthCredential} [options.auth] - The credential to send, resolved by the caller.
+  * @param {Record<string, string>} [options.headers] - Per-call headers merged over the client headers. URLs on another origin receive only these.
+  * @param {ResponseType} [options.responseType] - How the caller reads the body. Anything but {@link ResponseType.Json} is left unread.
+  *
+  * @returns {Promise<MiddlewareResponse>} The response and its parsed JSON body.
+  */
+  private async _attempt(options: {
+    url: string;
+    config: RequestInit;
+    method: HttpMethod;
+    signal?: AbortSignal;
+    scope?: CacheScope;
+    auth?: IAuthCredential;
+    headers?: Record<string, string>;
+    responseType?: ResponseType;
+  }): Promise<MiddlewareResponse> {
+    const { url, method, signal, scope, auth, responseType = ResponseType.Json } = options;
+    const raw = responseType !== ResponseType.Json;
+    const json = responseType === ResponseType.Json || responseType === ResponseType.JsonValue;
+    const config: RequestInit = auth?.credentials !== undefined
+      ? { credentials: auth.credentials, ...options.config }
+      : options.config;
+
+    const custom = { ...(this._isExternal({ url }) ? {} : this._headers), ...options.headers };
+    const typed = Object.keys(custom).some(name => name.toLowerCase() === 'content-type');
+    const jsonBody = config.body === undefined || config.body === null || typeof config.body === 'string';
 
     let headers: Record<string, string> = {
-      Accept: "application/json",
-      "Content-Type": "application/json",
-      ...this._headers,
+      Accept: json ? "application/json" : "*/*",
+      ...(jsonBody && !typed ? { "Content-Type": "application/json" } : {}),
+      ...custom,
     };
 
     if (config.body instanceof FormData) {
       delete headers["Content-Type"];
     }
 
-    if (this._auth) {
-      this._auth.apply({ headers });
+    if (auth) {
+      await auth.apply({ method, url, headers, body: config.body ?? undefined });
+    }
+
+    const request: MiddlewareRequest = {
+      url,
+      method,
+      headers,
+      body: config.body ?? undefined,
+      signal,
+    };
+
+    const cache = this._cache;
+    const deduplicator = this._deduplicator;
+    const send = (request: MiddlewareRequest) => this._send({ request, config, auth, raw });
+
+    const read = (request: MiddlewareRequest): Promise<MiddlewareResponse> => {
+      if (cache !== undefined && scope !== undefined) {
+        return cache.handle({ request, ...scope, next: send });
+      }
+
+      return send(request);
+    };
+
+    const result = await this._pipeline.execute({
+      request,
+      handler: (request) => {
+        if (request.method !== HttpMethod.GET || raw) {
+          return send(request);
+        }
+
+        if (deduplicator !== undefined) {
+          return deduplicator.execute({ request, next: read });
+        }
+
+        return read(request);
+      },
+    });
+
+    return result;
+  }
+
+ /**
+  * Normalizes a failed request into the error surfaced to callers.
+  *
+  * {@link PayloadSDKError} instances pass through with their
+  * attempt count; anything else is mapped to the matching
+  * {@link PayloadSDKError} subclass. Any failure after the
+  * caller's signal aborted is a {@link PayloadAbortError},
+  * whatever reason it was aborted with.
+  *
+  * @param {unknown} options.error - The error thrown by the final attempt.
+  * @param {HttpMethod} options.method - The request method.
+  * @param {string} options.url - The request URL.
+  * @param {number} options.attempts - The number of attempts made.
+  * @param {AbortSignal} [options.signal] - The caller's abort signal.
+  *
+  * @returns {PayloadSDKError} The error to throw.
+  */
+  private _normalizeError(options: { error: unknown; method: HttpMethod; url: string; attempts: number; signal?: AbortSignal }): PayloadSDKError {
+    const { error, method, url, attempts, signal } = options;
+    const context = { method, url, cause: error, attempts };
+
+    if (error instanceof PayloadSDKError) {
+      error.attempts = attempts;
+
+      return error;
+    }
+    else if (signal?.aborted === true) {
+      return new PayloadAbortError(context);
+    }
+    else if (error instanceof SyntaxError) {
+      return new PayloadParseError(context);
+    }
+    else if (error instanceof TypeError) {
+      return new PayloadNetworkError(context);
+    }
+    else if (error instanceof Error && error.name === 'AbortError') {
+      return new PayloadAbortError(context);
+    }
+    else if (error instanceof Error) {
+      return new PayloadSDKError({ ...context, message: `[PayloadError] ${error.message}` });
     }
 
+    return new PayloadSDKError({ ...context, message: '[PayloadError] Request failed' });
+  }
+
+ /**
+  * Sends a request through the configured {@link FetchFunction}.
+  *
+  * The terminal handler of the {@link Middleware} pipeline.
+  * Waits for a {@link RequestLimiter} slot when configured,
+  * then reads and parses the response body, throwing a
+  * {@link PayloadError} on non-2xx responses. Every response
+  * is passed to the credential, such as to capture cookies.
+  * Raw responses are returned with their body unread.
+  * Streamed request bodies are sent with `duplex: 'half'`.
+  *
+  * @param {MiddlewareRequest} options.request - The request produced by the pipeline.
+  * @param {RequestInit} options.config - The original `fetch` configuration.
+  * @param {IAuthCredential} [options.auth] - The credential applied to the request.
+  * @param {boolean} [options.raw] - Whether to leave a successful response body unread.
+  *
+  * @returns {Promise<MiddlewareResponse>} The response and its parsed JSON body.
+  *
+  * @throws {PayloadError} On non-2xx responses, as the status-specific subclass.
+  * @throws {PayloadParseError} When the response body is not valid JSON.
+  */
+  private async _send(options: { request: MiddlewareRequest; config: RequestInit; auth?: IAuthCredential; raw?: boolean }): Promise<MiddlewareResponse> {
+    const { request, config, auth, raw = false } = options;
+    const release = await this._limiter?.acquire({ signal: request.signal });
+    const trace = this._logger?.start({ request });
+
+    let response: Response;
+    let text: string | undefined;
+
     try {
-      response = await fetch(url, {
-        method: defaultMethod,
+      response = await this._fetch(request.url, {
         ...config,
-        headers: headers,
-        signal: signal,
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+        ...(request.body instanceof ReadableStream ? { duplex: 'half' } : {}),
       });
 
-      text = await response.text();
-
-      if (!response.ok) {
-        throw new PayloadError({
-          statusCode: response.status,
-          response,
-          body: text.length > 0 ? text : undefined,
-        });
+      text = raw && response.ok ? undefined : await response.text();
+    }
+    catch (error: unknown) {
+      if (trace !== undefined) {
+        this._logger?.error({ trace, request, error });
       }
 
-      json = JsonParser.parse(text);
+      throw error;
+    }
+    finally {
+      release?.();
+    }
 
-      return json;
+    if (trace !== undefined) {
+      this._logger?.end({ trace, request, response, text });
     }
-    catch (error: any) {
-      let message: string = '[PayloadError] Request failed';
 
-      if (error instanceof SyntaxError) {
-        message = `[PayloadError] Failed to parse JSON response`;
-      }
-      else if (error instanceof TypeError) {
-        message = `[PayloadError] Network failure or CORS issue`;
-      }
-      else if (error.name === 'AbortError') {
-        message = `[PayloadError] Request was aborted or timed out`;
-      }
-      else if (error instanceof PayloadError) {
-        throw error;
-      }
-      else if (error instanceof Error) {
-        message = `[PayloadError] ${error.message}`;
-      }
+    await auth?.receive?.({ url: request.url, response });
+
+    if (!response.ok) {
+      throw PayloadErrorFactory.create({
+        statusCode: response.status,
+        response,
+        body: text !== undefined && text.length > 0 ? text : undefined,
+        method: request.method,
+        url: request.url,
+      });
+    }
+
+    if (text === undefined) {
+      return { response, json: undefined };
+    }
 
-      throw new Error(message, { cause: error });
+    try {
+      const json = JsonParser.parse(text);
+
+      return { response, json };
+    }
+    catch (error: unknown) {
+      throw new PayloadParseError({ method: request.method, url: request.url, cause: error, body: text });
+    }
+  }
+
+ /**
+  * Reads a raw response body as the requested {@link ResponseType}.
+  *
+  * @param {Response} options.response - The successful response, with its body unread.
+  * @param {ResponseType} options.responseType - How to read the body.
+  * @param {HttpMethod} options.method - The request method.
+  * @param {string} options.url - The request URL.
+  *
+  * @returns {Promise<unknown>} The body, or `undefined` for an empty {@link ResponseType.JsonValue} response.
+  *
+  * @throws {PayloadParseError} When a {@link ResponseType.JsonValue} body is not valid JSON.
+  */
+  private async _read(options: { response: Response; responseType: ResponseType; method: HttpMethod; url: string }): Promise<unknown> {
+    const { response, responseType, method, url } = options;
+
+    switch (responseType) {
+      case ResponseType.Text:
+        return response.text();
+      case ResponseType.Blob:
+        return response.blob();
+      case ResponseType.ArrayBuffer:
+        return response.arrayBuffer();
+      case ResponseType.Stream:
+        return response.body;
+    }
+
+    const text = await response.text();
+
+    try {
+      return JsonParser.parseValue(text);
+    }
+    catch (error: unknown) {
+      throw new PayloadParseError({ method, url, cause: error, body: text });
     }
   }
 
@@ -254,14 +1059,19 @@ export class PayloadSDK {
    * @param {string} options.slug - The `collection` slug.
    * @param {QueryBuilder} [options.query] - Optional {@link QueryBuilder} for filtering, sorting, pagination.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<PaginatedDocsDTO>} A paginated response containing matching documents.
+   * @returns {Promise<PaginatedDocsDTO<CollectionDocument<TConfig, S>>>} A paginated response containing matching documents.
    */
-  async find(options: { slug: string; query?: QueryBuilder; signal?: AbortSignal }): Promise<PaginatedDocsDTO> {
-    const { slug, query, signal } = options;
+  async find<S extends CollectionSlug<TConfig>>(options: { slug: S; query?: QueryBuilder } & RequestOptions): Promise<PaginatedDocsDTO<CollectionDocument<TConfig, S>>> {
+    const { slug, query } = options;
     const url = this._appendQueryString({ url: `${this._baseUrl}/api/${encodeURIComponent(slug)}`, query });
-    const json = await this._request({ url, signal }) ?? {};
-    const dto = PaginatedDocsDTO.fromJson(json);
+    const json = await this._request({ url, options, scope: { slug } }) ?? {};
+    const dto = PaginatedDocsDTO.fromJson<CollectionDocument<TConfig, S>>(json);
 
     return dto;
   }
@@ -273,14 +1083,19 @@ export class PayloadSDK {
    * @param {string} options.id - The document ID.
    * @param {QueryBuilder} [options.query] - Optional {@link QueryBuilder} for depth, locale, etc.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<DocumentDTO>} The requested document.
+   * @returns {Promise<DocumentDTO<CollectionDocument<TConfig, S>>>} The requested document.
    */
-  async findById(options: { slug: string; id: string; query?: QueryBuilder; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, id, query, signal } = options;
+  async findById<S extends CollectionSlug<TConfig>>(options: { slug: S; id: string; query?: QueryBuilder } & RequestOptions): Promise<DocumentDTO<CollectionDocument<TConfig, S>>> {
+    const { slug, id, query } = options;
     const url = this._appendQueryString({ url: `${this._baseUrl}/api/${encodeURIComponent(slug)}/${encodeURIComponent(id)}`, query });
-    const json = await this._request({ url, signal }) ?? {};
-    const dto = DocumentDTO.fromJson(json);
+    const json = await this._request({ url, options, scope: { slug } }) ?? {};
+    const dto = DocumentDTO.fromJson<CollectionDocument<TConfig, S>>(json);
 
     return dto;
   }
@@ -289,24 +1104,34 @@ export class PayloadSDK {
    * Creates a new document in a `collection`.
    *
    * @param {string} options.slug - The `collection` slug.
-   * @param {Json} options.data - The document data to create.
+   * @param {CreateData<CollectionDocument<TConfig, S>>} options.data - The document data to create.
    * @param {FileUpload} [options.file] - Optional file for `upload`-enabled collections.
+   * @param {UploadProgressListener} [options.onProgress] - Optional listener notified as file bytes are sent.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<DocumentDTO>} The created document.
+   * @returns {Promise<DocumentDTO<CollectionDocument<TConfig, S>>>} The created document.
    */
-  async create(options: { slug: string; data: Json; file?: FileUpload; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, data, file, signal } = options;
+  async create<S extends CollectionSlug<TConfig>>(options: { slug: S; data: CreateData<CollectionDocument<TConfig, S>>; file?: FileUpload; onProgress?: UploadProgressListener } & RequestOptions): Promise<DocumentDTO<CollectionDocument<TConfig, S>>> {
+    const { slug, data, file, onProgress } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}`;
     const method: HttpMethod = HttpMethod.POST;
 
+    const { body, headers, sent } = this._encodeBody({ data: data as Json, file, onProgress, headers: options.headers });
+
     const config: RequestInit = {
       method: method,
-      body: file !== undefined ? FormDataBuilder.build({ file, data }) : JsonParser.stringify(data),
+      body: body,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
-    const dto = DocumentDTO.fromJson(json['doc'] as Json ?? {});
+    const json = await this._request({ url, config, options: { ...options, headers }, scope: { slug } }) ?? {};
+    const dto = DocumentDTO.fromJson<CollectionDocument<TConfig, S>>(json['doc'] as Json ?? {});
+
+    sent?.();
 
     return dto;
   }
@@ -317,11 +1142,16 @@ export class PayloadSDK {
    * @param {string} options.slug - The `collection` slug.
    * @param {QueryBuilder} options.query - {@link QueryBuilder} with `where` clause to select documents.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<PaginatedDocsDTO>} The bulk result containing deleted documents.
+   * @returns {Promise<PaginatedDocsDTO<CollectionDocument<TConfig, S>>>} The bulk result containing deleted documents.
    */
-  async delete(options: { slug: string; query: QueryBuilder; signal?: AbortSignal }): Promise<PaginatedDocsDTO> {
-    const { slug, query, signal } = options;
+  async delete<S extends CollectionSlug<TConfig>>(options: { slug: S; query: QueryBuilder } & RequestOptions): Promise<PaginatedDocsDTO<CollectionDocument<TConfig, S>>> {
+    const { slug, query } = options;
     const url = this._appendQueryString({ url: `${this._baseUrl}/api/${encodeURIComponent(slug)}`, query });
     const method: HttpMethod = HttpMethod.DELETE;
 
@@ -329,8 +1159,8 @@ export class PayloadSDK {
       method: method,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
-    const dto = PaginatedDocsDTO.fromJson(json);
+    const json = await this._request({ url, config, options, scope: { slug } }) ?? {};
+    const dto = PaginatedDocsDTO.fromJson<CollectionDocument<TConfig, S>>(json);
 
     return dto;
   }
@@ -341,11 +1171,16 @@ export class PayloadSDK {
    * @param {string} options.slug - The `collection` slug.
    * @param {string} options.id - The document ID.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<DocumentDTO>} The deleted document.
+   * @returns {Promise<DocumentDTO<CollectionDocument<TConfig, S>>>} The deleted document.
    */
-  async deleteById(options: { slug: string; id: string; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, id, signal } = options;
+  async deleteById<S extends CollectionSlug<TConfig>>(options: { slug: S; id: string } & RequestOptions): Promise<DocumentDTO<CollectionDocument<TConfig, S>>> {
+    const { slug, id } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/${encodeURIComponent(id)}`;
     const method: HttpMethod = HttpMethod.DELETE;
 
@@ -353,8 +1188,8 @@ export class PayloadSDK {
       method: method,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
-    const dto = DocumentDTO.fromJson(json['doc'] as Json ?? {});
+    const json = await this._request({ url, config, options, idempotent: true, scope: { slug } }) ?? {};
+    const dto = DocumentDTO.fromJson<CollectionDocument<TConfig, S>>(json['doc'] as Json ?? {});
 
     return dto;
   }
@@ -363,25 +1198,35 @@ export class PayloadSDK {
    * Updates multiple documents matching a query.
    *
    * @param {string} options.slug - The `collection` slug.
-   * @param {Json} options.data - The fields to update on matching documents.
+   * @param {UpdateData<CollectionDocument<TConfig, S>>} options.data - The fields to update on matching documents.
    * @param {QueryBuilder} options.query - {@link QueryBuilder} with `where` clause to select documents.
    * @param {FileUpload} [options.file] - Optional file for `upload`-enabled collections.
+   * @param {UploadProgressListener} [options.onProgress] - Optional listener notified as file bytes are sent.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<PaginatedDocsDTO>} The bulk result containing updated documents.
+   * @returns {Promise<PaginatedDocsDTO<CollectionDocument<TConfig, S>>>} The bulk result containing updated documents.
    */
-  async update(options: { slug: string; data: Json; query: QueryBuilder; file?: FileUpload; signal?: AbortSignal }): Promise<PaginatedDocsDTO> {
-    const { slug, data, query, file, signal } = options;
+  async update<S extends CollectionSlug<TConfig>>(options: { slug: S; data: UpdateData<CollectionDocument<TConfig, S>>; query: QueryBuilder; file?: FileUpload; onProgress?: UploadProgressListener } & RequestOptions): Promise<PaginatedDocsDTO<CollectionDocument<TConfig, S>>> {
+    const { slug, data, query, file, onProgress } = options;
     const url = this._appendQueryString({ url: `${this._baseUrl}/api/${encodeURIComponent(slug)}`, query });
     const method: HttpMethod = HttpMethod.PATCH;
 
+    const { body, headers, sent } = this._encodeBody({ data: data as Json, file, onProgress, headers: options.headers });
+
     const config: RequestInit = {
       method: method,
-      body: file !== undefined ? FormDataBuilder.build({ file, data }) : JsonParser.stringify(data),
+      body: body,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
-    const dto = PaginatedDocsDTO.fromJson(json);
+    const json = await this._request({ url, config, options: { ...options, headers }, scope: { slug } }) ?? {};
+    const dto = PaginatedDocsDTO.fromJson<CollectionDocument<TConfig, S>>(json);
+
+    sent?.();
 
     return dto;
   }
@@ -391,24 +1236,34 @@ export class PayloadSDK {
    *
    * @param {string} options.slug - The `collection` slug.
    * @param {string} options.id - The document ID.
-   * @param {Json} options.data - The fields to update.
+   * @param {UpdateData<CollectionDocument<TConfig, S>>} options.data - The fields to update.
    * @param {FileUpload} [options.file] - Optional file for `upload`-enabled collections.
+   * @param {UploadProgressListener} [options.onProgress] - Optional listener notified as file bytes are sent.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<DocumentDTO>} The updated document.
+   * @returns {Promise<DocumentDTO<CollectionDocument<TConfig, S>>>} The updated document.
    */
-  async updateById(options: { slug: string; id: string; data: Json; file?: FileUpload; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, id, data, file, signal } = options;
+  async updateById<S extends CollectionSlug<TConfig>>(options: { slug: S; id: string; data: UpdateData<CollectionDocument<TConfig, S>>; file?: FileUpload; onProgress?: UploadProgressListener } & RequestOptions): Promise<DocumentDTO<CollectionDocument<TConfig, S>>> {
+    const { slug, id, data, file, onProgress } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/${encodeURIComponent(id)}`;
     const method: HttpMethod = HttpMethod.PATCH;
 
+    const { body, headers, sent } = this._encodeBody({ data: data as Json, file, onProgress, headers: options.headers });
+
     const config: RequestInit = {
       method: method,
-      body: file !== undefined ? FormDataBuilder.build({ file, data }) : JsonParser.stringify(data),
+      body: body,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
-    const dto = DocumentDTO.fromJson(json['doc'] as Json ?? {});
+    const json = await this._request({ url, config, options: { ...options, headers }, scope: { slug } }) ?? {};
+    const dto = DocumentDTO.fromJson<CollectionDocument<TConfig, S>>(json['doc'] as Json ?? {});
+
+    sent?.();
 
     return dto;
   }
@@ -419,31 +1274,159 @@ export class PayloadSDK {
    * @param {string} options.slug - The `collection` slug.
    * @param {QueryBuilder} [options.query] - Optional {@link QueryBuilder} for filtering.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<number>} The total document count.
    */
-  async count(options: { slug: string; query?: QueryBuilder; signal?: AbortSignal }): Promise<number> {
-    const { slug, query, signal } = options;
+  async count<S extends CollectionSlug<TConfig>>(options: { slug: S; query?: QueryBuilder } & RequestOptions): Promise<number> {
+    const { slug, query } = options;
     const url = this._appendQueryString({ url: `${this._baseUrl}/api/${encodeURIComponent(slug)}/count`, query });
-    const json = await this._request({ url, signal }) ?? {};
+    const json = await this._request({ url, options, scope: { slug } }) ?? {};
     const dto = TotalDocsDTO.fromJson(json);
 
     return dto.totalDocs;
   }
 
+  /**
+   * Downloads the stored file of an `upload`-enabled `collection`.
+   *
+   * Reads the file from the document's `url`, from
+   * `/api/{slug}/file/{filename}`, or from any `url`. The
+   * client's auth and headers are sent unless the URL points
+   * to another origin, such as a storage bucket or CDN, which
+   * receives only the per-call headers.
+   *
+   * @param {string} options.slug - The `upload` collection slug.
+   * @param {DocumentDTO<CollectionDocument<TConfig, S>>} [options.doc] - The media document to download.
+   * @param {string} [options.filename] - The stored filename, instead of a document.
+   * @param {string} [options.url] - An absolute or base-relative URL, instead of a document.
+   * @param {string} [options.size] - Optional image size name, such as `thumbnail`. Requires `doc`.
+   * @param {DownloadType} [options.responseType] - How to read the file. Defaults to {@link ResponseType.Blob}.
+   * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
+   *
+   * @returns {Promise<FileDownload<T>>} The file content with its filename, content type, and length.
+   *
+   * @throws {Error} If neither a file nor the requested image size can be resolved, or `size` is passed without `doc`.
+   */
+  async download<T extends DownloadType = ResponseType.Blob, S extends CollectionSlug<TConfig> = CollectionSlug<TConfig>>(options: {
+    slug: S;
+    doc?: DocumentDTO<CollectionDocument<TConfig, S>>;
+    filename?: string;
+    url?: string;
+    size?: string;
+    responseType?: T;
+  } & RequestOptions): Promise<FileDownload<T>> {
+    const { responseType = ResponseType.Blob } = options;
+    const file = this._resolveFile(options);
+    const requestOptions: RequestOptions = this._isExternal({ url: file.url }) ? { ...options, auth: null } : options;
+    const { body: data, response } = await this._exchange({ url: file.url, options: requestOptions, responseType: responseType as T });
+
+    const length = Number(response.headers.get('Content-Length') ?? NaN);
+
+    return {
+      content: data,
+      filename: file.filename,
+      contentType: response.headers.get('Content-Type') ?? file.mimeType,
+      contentLength: data instanceof Blob ? data.size
+        : data instanceof ArrayBuffer ? data.byteLength
+        : Number.isFinite(length) ? length : undefined,
+    };
+  }
+
+ /**
+  * Resolves the URL, filename, and MIME type of a stored file.
+  *
+  * An explicit `filename` maps to `/api/{slug}/file/{filename}`,
+  * and an explicit `url` names the file by its last path segment.
+  * Otherwise the document, or its named image size, provides
+  * the `url`, falling back to its `filename`. Relative URLs
+  * are resolved against the base URL.
+  *
+  * @param {string} options.slug - The `upload` collection slug.
+  * @param {DocumentDTO} [options.doc] - The media document.
+  * @param {string} [options.filename] - The stored filename.
+  * @param {string} [options.url] - An absolute or base-relative URL.
+  * @param {string} [options.size] - Optional image size name.
+  *
+  * @returns {{ url: string; filename: string; mimeType: string | undefined }} The resolved file.
+  *
+  * @throws {Error} If neither a file nor the requested image size can be resolved, or `size` is passed without `doc`.
+  */
+  private _resolveFile(options: { slug: string; doc?: DocumentDTO<unknown>; filename?: string; url?: string; size?: string }): { url: string; filename: string; mimeType: string | undefined } {
+    const { slug, doc, size } = options;
+    const fileUrl = (filename: string) => `${this._baseUrl}/api/${encodeURIComponent(slug)}/file/${encodeURIComponent(filename)}`;
+    const absoluteUrl = (url: string) => /^https?:\/\//i.test(url) ? url : `${this._baseUrl}${url.startsWith('/') ? '' : '/'}${url}`;
+
+    if (size !== undefined && (options.filename !== undefined || options.url !== undefined)) {
+      throw new Error('[PayloadError] download size requires a doc, not a filename or url');
+    }
+
+    if (options.filename !== undefined) {
+      return { url: fileUrl(options.filename), filename: options.filename, mimeType: undefined };
+    }
+
+    if (options.url !== undefined) {
+      const url = absoluteUrl(options.url);
+      const filename = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+
+      return { url, filename, mimeType: undefined };
+    }
+
+    if (doc === undefined) {
+      throw new Error('[PayloadError] download requires a doc, a filename, or a url');
+    }
+
+    const json = doc.json as Json;
+    let source: JsonValue | undefined = json;
+
+    if (size !== undefined) {
+      const sizes = json['sizes'];
+
+      source = typeof sizes === 'object' && sizes !== null && !Array.isArray(sizes) ? sizes[size] : undefined;
+
+      if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+        throw new Error(`[PayloadError] Image size not found: ${size}`);
+      }
+    }
+
+    const { url, filename, mimeType } = source as Json;
+
+    if (typeof filename !== 'string' || filename === '') {
+      throw new Error(`[PayloadError] Document has no stored file: ${doc.id}`);
+    }
+
+    const resolved = typeof url !== 'string' || url === '' ? fileUrl(filename) : absoluteUrl(url);
+
+    return { url: resolved, filename, mimeType: typeof mimeType === 'string' ? mimeType : undefined };
+  }
+
   /**
    * Retrieves a `global` document.
    *
    * @param {string} options.slug - The `global` slug.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<DocumentDTO>} The `global` document.
+   * @returns {Promise<DocumentDTO<GlobalDocument<TConfig, S>>>} The `global` document.
    */
-  async findGlobal(options: { slug: string; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, signal } = options;
+  async findGlobal<S extends GlobalSlug<TConfig>>(options: { slug: S } & RequestOptions): Promise<DocumentDTO<GlobalDocument<TConfig, S>>> {
+    const { slug } = options;
     const url = `${this._baseUrl}/api/globals/${encodeURIComponent(slug)}`;
-    const json = await this._request({ url, signal }) ?? {};
-    const dto = DocumentDTO.fromJson(json);
+    const json = await this._request({ url, options, scope: { slug, global: true } }) ?? {};
+    const dto = DocumentDTO.fromJson<GlobalDocument<TConfig, S>>(json);
 
     return dto;
   }
@@ -452,23 +1435,28 @@ export class PayloadSDK {
    * Updates a `global` document.
    *
    * @param {string} options.slug - The `global` slug.
-   * @param {Json} options.data - The fields to update.
+   * @param {UpdateData<GlobalDocument<TConfig, S>>} options.data - The fields to update.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
-   * @returns {Promise<DocumentDTO>} The updated `global` document.
+   * @returns {Promise<DocumentDTO<GlobalDocument<TConfig, S>>>} The updated `global` document.
    */
-  async updateGlobal(options: { slug: string; data: Json; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, data, signal } = options;
+  async updateGlobal<S extends GlobalSlug<TConfig>>(options: { slug: S; data: UpdateData<GlobalDocument<TConfig, S>> } & RequestOptions): Promise<DocumentDTO<GlobalDocument<TConfig, S>>> {
+    const { slug, data } = options;
     const url = `${this._baseUrl}/api/globals/${encodeURIComponent(slug)}`;
     const method: HttpMethod = HttpMethod.POST;
 
     const config: RequestInit = {
       method: method,
-      body: JsonParser.stringify(data),
+      body: JsonParser.stringify(data as Json),
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
-    const dto = DocumentDTO.fromJson(json['result'] as Json ?? {});
+    const json = await this._request({ url, config, options, scope: { slug, global: true } }) ?? {};
+    const dto = DocumentDTO.fromJson<GlobalDocument<TConfig, S>>(json['result'] as Json ?? {});
 
     return dto;
   }
@@ -479,13 +1467,18 @@ export class PayloadSDK {
    * @param {string} options.slug - The `collection` slug.
    * @param {QueryBuilder} [options.query] - Optional {@link QueryBuilder} for filtering, sorting, pagination.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<PaginatedDocsDTO>} A paginated response containing `version` documents.
    */
-  async findVersions(options: { slug: string; query?: QueryBuilder; signal?: AbortSignal }): Promise<PaginatedDocsDTO> {
-    const { slug, query, signal } = options;
+  async findVersions<S extends CollectionSlug<TConfig>>(options: { slug: S; query?: QueryBuilder } & RequestOptions): Promise<PaginatedDocsDTO> {
+    const { slug, query } = options;
     const url = this._appendQueryString({ url: `${this._baseUrl}/api/${encodeURIComponent(slug)}/versions`, query });
-    const json = await this._request({ url, signal }) ?? {};
+    const json = await this._request({ url, options, scope: { slug } }) ?? {};
     const dto = PaginatedDocsDTO.fromJson(json);
 
     return dto;
@@ -497,13 +1490,18 @@ export class PayloadSDK {
    * @param {string} options.slug - The `collection` slug.
    * @param {string} options.id - The `version` ID.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<DocumentDTO>} The `version` document.
    */
-  async findVersionById(options: { slug: string; id: string; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, id, signal } = options;
+  async findVersionById<S extends CollectionSlug<TConfig>>(options: { slug: S; id: string } & RequestOptions): Promise<DocumentDTO> {
+    const { slug, id } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/versions/${encodeURIComponent(id)}`;
-    const json = await this._request({ url, signal }) ?? {};
+    const json = await this._request({ url, options, scope: { slug } }) ?? {};
     const dto = DocumentDTO.fromJson(json);
 
     return dto;
@@ -515,11 +1513,16 @@ export class PayloadSDK {
    * @param {string} options.slug - The `collection` slug.
    * @param {string} options.id - The `version` ID to restore.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<DocumentDTO>} The restored document.
    */
-  async restoreVersion(options: { slug: string; id: string; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, id, signal } = options;
+  async restoreVersion<S extends CollectionSlug<TConfig>>(options: { slug: S; id: string } & RequestOptions): Promise<DocumentDTO> {
+    const { slug, id } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/versions/${encodeURIComponent(id)}`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -527,7 +1530,7 @@ export class PayloadSDK {
       method: method,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options, scope: { slug } }) ?? {};
     const dto = DocumentDTO.fromJson(json);
 
     return dto;
@@ -539,13 +1542,18 @@ export class PayloadSDK {
    * @param {string} options.slug - The `global` slug.
    * @param {QueryBuilder} [options.query] - Optional {@link QueryBuilder} for filtering, sorting, pagination.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<PaginatedDocsDTO>} A paginated response containing `version` documents.
    */
-  async findGlobalVersions(options: { slug: string; query?: QueryBuilder; signal?: AbortSignal }): Promise<PaginatedDocsDTO> {
-    const { slug, query, signal } = options;
+  async findGlobalVersions<S extends GlobalSlug<TConfig>>(options: { slug: S; query?: QueryBuilder } & RequestOptions): Promise<PaginatedDocsDTO> {
+    const { slug, query } = options;
     const url = this._appendQueryString({ url: `${this._baseUrl}/api/globals/${encodeURIComponent(slug)}/versions`, query });
-    const json = await this._request({ url, signal }) ?? {};
+    const json = await this._request({ url, options, scope: { slug, global: true } }) ?? {};
     const dto = PaginatedDocsDTO.fromJson(json);
 
     return dto;
@@ -557,13 +1565,18 @@ export class PayloadSDK {
    * @param {string} options.slug - The `global` slug.
    * @param {string} options.id - The `version` ID.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<DocumentDTO>} The `version` document.
    */
-  async findGlobalVersionById(options: { slug: string; id: string; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, id, signal } = options;
+  async findGlobalVersionById<S extends GlobalSlug<TConfig>>(options: { slug: S; id: string } & RequestOptions): Promise<DocumentDTO> {
+    const { slug, id } = options;
     const url = `${this._baseUrl}/api/globals/${encodeURIComponent(slug)}/versions/${encodeURIComponent(id)}`;
-    const json = await this._request({ url, signal }) ?? {};
+    const json = await this._request({ url, options, scope: { slug, global: true } }) ?? {};
     const dto = DocumentDTO.fromJson(json);
 
     return dto;
@@ -575,11 +1588,16 @@ export class PayloadSDK {
    * @param {string} options.slug - The `global` slug.
    * @param {string} options.id - The `version` ID to restore.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<DocumentDTO>} The restored document.
    */
-  async restoreGlobalVersion(options: { slug: string; id: string; signal?: AbortSignal }): Promise<DocumentDTO> {
-    const { slug, id, signal } = options;
+  async restoreGlobalVersion<S extends GlobalSlug<TConfig>>(options: { slug: S; id: string } & RequestOptions): Promise<DocumentDTO> {
+    const { slug, id } = options;
     const url = `${this._baseUrl}/api/globals/${encodeURIComponent(slug)}/versions/${encodeURIComponent(id)}`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -587,7 +1605,7 @@ export class PayloadSDK {
       method: method,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options, scope: { slug, global: true } }) ?? {};
     const dto = DocumentDTO.fromJson(json['doc'] as Json ?? {});
 
     return dto;
@@ -596,14 +1614,22 @@ export class PayloadSDK {
   /**
    * Authenticates a user and returns a JWT token.
    *
+   * Starts a new session on the {@link SessionManager}, when configured,
+   * unless the call is made as an identity or with a per-call `auth`.
+   *
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {Json} options.data - The login credentials (e.g. `{ email, password }`).
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<LoginResultDTO>} The login result containing token, expiration, and user.
    */
-  async login(options: { slug: string; data: Json; signal?: AbortSignal }): Promise<LoginResultDTO> {
-    const { slug, data, signal } = options;
+  async login(options: { slug: string; data: Json } & RequestOptions): Promise<LoginResultDTO> {
+    const { slug, data } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/login`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -612,25 +1638,54 @@ export class PayloadSDK {
       body: JsonParser.stringify(data),
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options }) ?? {};
     const dto = LoginResultDTO.fromJson(json);
 
+    await this._sessionFor(options)?.set({ state: { slug, token: dto.token, exp: dto.exp, user: dto.user } });
+
     return dto;
   }
 
   /**
    * Retrieves the currently authenticated user.
    *
+   * Updates the {@link SessionManager}, when configured,
+   * clearing it if the user is no longer authenticated.
+   * Calls made as an identity or with a per-call `auth` leave it untouched.
+   *
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<MeResultDTO>} The current user with token and session metadata.
    */
-  async me(options: { slug: string; signal?: AbortSignal }): Promise<MeResultDTO> {
-    const { slug, signal } = options;
+  async me(options: { slug: string } & RequestOptions): Promise<MeResultDTO> {
+    const { slug } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/me`;
-    const json = await this._request({ url, signal }) ?? {};
+    const json = await this._request({ url, options }) ?? {};
     const dto = MeResultDTO.fromJson(json);
+    const manager = this._sessionFor(options);
+    const session = manager?.state;
+
+    if (json['user'] === null || json['user'] === undefined) {
+      if (session?.slug === slug) {
+        await manager?.clear();
+      }
+    }
+    else {
+      await manager?.set({
+        state: {
+          slug,
+          token: dto.token !== '' ? dto.token : session?.token ?? '',
+          exp: dto.exp !== 0 ? dto.exp : session?.exp ?? 0,
+          user: dto.user,
+        },
+      });
+    }
 
     return dto;
   }
@@ -638,13 +1693,21 @@ export class PayloadSDK {
   /**
    * Refreshes the current JWT token.
    *
+   * Stores the refreshed token on the {@link SessionManager}, when configured,
+   * unless the call is made as an identity or with a per-call `auth`.
+   *
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<RefreshResultDTO>} The new token, expiration, and user.
    */
-  async refreshToken(options: { slug: string; signal?: AbortSignal }): Promise<RefreshResultDTO> {
-    const { slug, signal } = options;
+  async refreshToken(options: { slug: string } & RequestOptions): Promise<RefreshResultDTO> {
+    const { slug } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/refresh-token`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -652,9 +1715,11 @@ export class PayloadSDK {
       method: method,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options }) ?? {};
     const dto = RefreshResultDTO.fromJson(json);
 
+    await this._sessionFor(options)?.set({ state: { slug, token: dto.refreshedToken, exp: dto.exp, user: dto.user } });
+
     return dto;
   }
 
@@ -664,11 +1729,16 @@ export class PayloadSDK {
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {Json} options.data - The request data (e.g. `{ email }`).
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<MessageDTO>} A message confirming the request was processed.
    */
-  async forgotPassword(options: { slug: string; data: Json; signal?: AbortSignal }): Promise<MessageDTO> {
-    const { slug, data, signal } = options;
+  async forgotPassword(options: { slug: string; data: Json } & RequestOptions): Promise<MessageDTO> {
+    const { slug, data } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/forgot-password`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -677,7 +1747,7 @@ export class PayloadSDK {
       body: JsonParser.stringify(data),
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options }) ?? {};
     const dto = MessageDTO.fromJson(json);
 
     return dto;
@@ -686,14 +1756,22 @@ export class PayloadSDK {
   /**
    * Completes a password reset using a reset token.
    *
+   * Starts a new session on the {@link SessionManager}, when configured,
+   * unless the call is made as an identity or with a per-call `auth`.
+   *
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {Json} options.data - The reset data (e.g. `{ token, password }`).
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<ResetPasswordResultDTO>} The user document and optional new token.
    */
-  async resetPassword(options: { slug: string; data: Json; signal?: AbortSignal }): Promise<ResetPasswordResultDTO> {
-    const { slug, data, signal } = options;
+  async resetPassword(options: { slug: string; data: Json } & RequestOptions): Promise<ResetPasswordResultDTO> {
+    const { slug, data } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/reset-password`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -702,9 +1780,13 @@ export class PayloadSDK {
       body: JsonParser.stringify(data),
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options }) ?? {};
     const dto = ResetPasswordResultDTO.fromJson(json);
 
+    if (dto.token !== '') {
+      await this._sessionFor(options)?.set({ state: { slug, token: dto.token, exp: JwtDecoder.exp({ token: dto.token }) ?? 0, user: dto.user } });
+    }
+
     return dto;
   }
 
@@ -714,11 +1796,16 @@ export class PayloadSDK {
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {string} options.token - The email verification token.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<MessageDTO>} A message confirming the verification result.
    */
-  async verifyEmail(options: { slug: string; token: string; signal?: AbortSignal }): Promise<MessageDTO> {
-    const { slug, token, signal } = options;
+  async verifyEmail(options: { slug: string; token: string } & RequestOptions): Promise<MessageDTO> {
+    const { slug, token } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/verify/${encodeURIComponent(token)}`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -726,7 +1813,7 @@ export class PayloadSDK {
       method: method,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options }) ?? {};
     const dto = MessageDTO.fromJson(json);
 
     return dto;
@@ -735,13 +1822,20 @@ export class PayloadSDK {
   /**
    * Logs out the currently authenticated user.
    *
+   * Clears the {@link SessionManager} session for this `collection`, when configured.
+   *
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<MessageDTO>} A message confirming the logout.
    */
-  async logout(options: { slug: string; signal?: AbortSignal }): Promise<MessageDTO> {
-    const { slug, signal } = options;
+  async logout(options: { slug: string } & RequestOptions): Promise<MessageDTO> {
+    const { slug } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/logout`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -749,8 +1843,20 @@ export class PayloadSDK {
       method: method,
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options }) ?? {};
     const dto = MessageDTO.fromJson(json);
+    const identity = options.identity ?? this._identity;
+    const auth = options.auth !== undefined
+      ? options.auth
+      : identity !== undefined ? this._identities.get(identity) : this._auth;
+
+    const session = this._sessionFor(options);
+
+    await auth?.clear?.();
+
+    if (session?.state?.slug === slug) {
+      await session.clear();
+    }
 
     return dto;
   }
@@ -761,11 +1867,16 @@ export class PayloadSDK {
    * @param {string} options.slug - The `auth`-enabled `collection` slug.
    * @param {Json} options.data - The request data (e.g. `{ email }`).
    * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+   * @param {number} [options.timeoutMs] - Optional timeout in milliseconds, overriding the client default.
+   * @param {string} [options.identity] - Optional `auth`-enabled `collection` slug whose registered credential is used for this call.
+   * @param {Record<string, string>} [options.headers] - Optional headers merged over the client headers for this call.
+   * @param {IAuthCredential | null} [options.auth] - Optional credential for this call, overriding the client's, or `null` to send no auth.
+   * @param {FetchInit} [options.init] - Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`.
    *
    * @returns {Promise<MessageDTO>} A message confirming the unlock.
    */
-  async unlock(options: { slug: string; data: Json; signal?: AbortSignal }): Promise<MessageDTO> {
-    const { slug, data, signal } = options;
+  async unlock(options: { slug: string; data: Json } & RequestOptions): Promise<MessageDTO> {
+    const { slug, data } = options;
     const url = `${this._baseUrl}/api/${encodeURIComponent(slug)}/unlock`;
     const method: HttpMethod = HttpMethod.POST;
 
@@ -774,7 +1885,7 @@ export class PayloadSDK {
       body: JsonParser.stringify(data),
     };
 
-    const json = await this._request({ url, config, signal }) ?? {};
+    const json = await this._request({ url, config, options }) ?? {};
     const dto = MessageDTO.fromJson(json);
 
     return dto;
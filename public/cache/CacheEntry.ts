@@ -0,0 +1,27 @@
+import type { Json } from "../../types/Json.js";
+
+/**
+ * A cached response stored by {@link ResponseCache}.
+ */
+export type CacheEntry = {
+  /** The parsed response body, or `undefined` for empty responses. */
+  json: Json | undefined;
+
+  /** The response status code. */
+  status: number;
+
+  /** The response headers. */
+  headers: Record<string, string>;
+
+  /** The `ETag` header, used for `If-None-Match` revalidation. */
+  etag: string | undefined;
+
+  /** The `Last-Modified` header, used for `If-Modified-Since` revalidation. */
+  lastModified: string | undefined;
+
+  /** Epoch milliseconds when the entry was stored or last revalidated. */
+  storedAt: number;
+
+  /** The `collection` slug (or `globals/{slug}`) the entry belongs to, used for invalidation. */
+  tag: string;
+};
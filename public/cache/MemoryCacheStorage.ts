@@ -0,0 +1,58 @@
+import type { ICacheStorage } from "../contracts/ICacheStorage.js";
+import type { CacheEntry } from "./CacheEntry.js";
+
+/**
+ * In-memory {@link ICacheStorage} with least-recently-used eviction.
+ *
+ * The default storage for {@link ResponseCache}.
+ */
+export class MemoryCacheStorage implements ICacheStorage {
+  private readonly _entries: Map<string, CacheEntry> = new Map();
+  private readonly _maxEntries: number;
+
+ /**
+  * Creates a new MemoryCacheStorage.
+  *
+  * @param {number} [options.maxEntries=500] - Maximum entries kept before the least recently used is evicted.
+  */
+  constructor(options?: { maxEntries?: number }) {
+    const { maxEntries } = options ?? {};
+
+    this._maxEntries = Math.max(1, maxEntries ?? 500);
+  }
+
+  async get(options: { key: string }): Promise<CacheEntry | undefined> {
+    const { key } = options;
+    const entry = this._entries.get(key);
+
+    if (entry !== undefined) {
+      // Re-insert to mark as most recently used.
+      this._entries.delete(key);
+      this._entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  async set(options: { key: string; entry: CacheEntry }): Promise<void> {
+    const { key, entry } = options;
+
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+
+    while (this._entries.size > this._maxEntries) {
+      const oldest = this._entries.keys().next().value as string;
+      this._entries.delete(oldest);
+    }
+  }
+
+  async delete(options: { key: string }): Promise<void> {
+    const { key } = options;
+
+    this._entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this._entries.keys()];
+  }
+}
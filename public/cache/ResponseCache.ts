@@ -0,0 +1,224 @@
+import type { ICacheStorage } from "../contracts/ICacheStorage.js";
+import type { CacheEntry } from "./CacheEntry.js";
+import type { MiddlewareNext, MiddlewareRequest, MiddlewareResponse } from "../middleware/Middleware.js";
+import { MemoryCacheStorage } from "./MemoryCacheStorage.js";
+import { PayloadError } from "../PayloadError.js";
+
+/**
+ * Opt-in cache for read operations.
+ *
+ * Entries are keyed by method, URL (including the serialized
+ * {@link QueryBuilder}), and a hash of the request headers,
+ * so credentials, tenants, and locales never share entries.
+ * Fresh entries are served without a request; stale
+ * entries within the stale-while-revalidate window are served
+ * immediately and refreshed in the background. Revalidation
+ * sends `If-None-Match` / `If-Modified-Since` when the server
+ * provided an `ETag` or `Last-Modified` header.
+ *
+ * Mutating calls on {@link PayloadSDK} invalidate every entry
+ * for the affected slug.
+ */
+export class ResponseCache {
+  private readonly _ttlMs: number;
+  private readonly _staleWhileRevalidateMs: number;
+  private readonly _storage: ICacheStorage;
+  private readonly _revalidating: Set<string> = new Set();
+
+ /**
+  * Creates a new ResponseCache.
+  *
+  * @param {number} [options.ttlMs=60000] - How long an entry is served without contacting the server.
+  * @param {number} [options.staleWhileRevalidateMs=0] - How long after expiry a stale entry may be served while it is refreshed.
+  * @param {ICacheStorage} [options.storage] - Where entries are kept. Defaults to a {@link MemoryCacheStorage}.
+  */
+  constructor(options?: { ttlMs?: number; staleWhileRevalidateMs?: number; storage?: ICacheStorage }) {
+    const { ttlMs, staleWhileRevalidateMs, storage } = options ?? {};
+
+    this._ttlMs = ttlMs ?? 60_000;
+    this._staleWhileRevalidateMs = staleWhileRevalidateMs ?? 0;
+    this._storage = storage ?? new MemoryCacheStorage();
+  }
+
+  /**
+   * Serves a read request from the cache, or forwards it and stores the result.
+   *
+   * @param {MiddlewareRequest} options.request - The outgoing request.
+   * @param {string} options.slug - The `collection` or `global` slug the request reads from.
+   * @param {boolean} [options.global=false] - Whether the slug refers to a `global`.
+   * @param {MiddlewareNext} options.next - Sends the request to the server.
+   *
+   * @returns {Promise<MiddlewareResponse>} The cached or fresh response.
+   */
+  async handle(options: { request: MiddlewareRequest; slug: string; global?: boolean; next: MiddlewareNext }): Promise<MiddlewareResponse> {
+    const { request, slug, global = false, next } = options;
+    const tag = this._tag({ slug, global });
+    const key = await this._key({ request });
+    const entry = await this._storage.get({ key });
+    const age = entry !== undefined ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry !== undefined && age <= this._ttlMs) {
+      return this._toResponse({ entry });
+    }
+
+    if (entry !== undefined && age <= this._ttlMs + this._staleWhileRevalidateMs) {
+      if (!this._revalidating.has(key)) {
+        this._revalidating.add(key);
+
+        // Detached from the caller's signal so aborting the caller does not cancel the refresh.
+        this._fetch({ key, entry, request: { ...request, signal: undefined }, tag, next })
+          .catch(() => undefined)
+          .finally(() => this._revalidating.delete(key));
+      }
+
+      return this._toResponse({ entry });
+    }
+
+    return this._fetch({ key, entry, request, tag, next });
+  }
+
+  /**
+   * Removes every entry for a `collection` or `global`.
+   *
+   * @param {string} options.slug - The `collection` or `global` slug.
+   * @param {boolean} [options.global=false] - Whether the slug refers to a `global`.
+   *
+   * @returns {Promise<void>}
+   */
+  async invalidate(options: { slug: string; global?: boolean }): Promise<void> {
+    const { slug, global = false } = options;
+    const tag = this._tag({ slug, global });
+
+    for (const key of await this._storage.keys()) {
+      const entry = await this._storage.get({ key });
+
+      if (entry?.tag === tag) {
+        await this._storage.delete({ key });
+      }
+    }
+  }
+
+  /**
+   * Removes every entry.
+   *
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    for (const key of await this._storage.keys()) {
+      await this._storage.delete({ key });
+    }
+  }
+
+  /**
+   * Sends the request, revalidating the existing entry if possible.
+   *
+   * A `304 Not Modified` response refreshes the existing entry;
+   * any other successful response replaces it.
+   *
+   * @param {string} options.key - The cache key.
+   * @param {CacheEntry | undefined} options.entry - The existing entry, if any.
+   * @param {MiddlewareRequest} options.request - The outgoing request.
+   * @param {string} options.tag - The slug the request reads from.
+   * @param {MiddlewareNext} options.next - Sends the request to the server.
+   *
+   * @returns {Promise<MiddlewareResponse>} The fresh or revalidated response.
+   */
+  private async _fetch(options: { key: string; entry: CacheEntry | undefined; request: MiddlewareRequest; tag: string; next: MiddlewareNext }): Promise<MiddlewareResponse> {
+    const { key, entry, request, tag, next } = options;
+    const headers = { ...request.headers };
+
+    if (entry?.etag !== undefined) {
+      headers['If-None-Match'] = entry.etag;
+    }
+
+    if (entry?.lastModified !== undefined) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+
+    try {
+      const result = await next({ ...request, headers });
+      const { response, json } = result;
+      const responseHeaders: Record<string, string> = {};
+
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = value;
+      });
+
+      await this._storage.set({
+        key,
+        entry: {
+          json,
+          status: response.status,
+          headers: responseHeaders,
+          etag: response.headers.get('ETag') ?? undefined,
+          lastModified: response.headers.get('Last-Modified') ?? undefined,
+          storedAt: Date.now(),
+          tag,
+        },
+      });
+
+      return result;
+    }
+    catch (error: unknown) {
+      if (entry === undefined || !(error instanceof PayloadError) || error.statusCode !== 304) {
+        throw error;
+      }
+
+      const refreshed: CacheEntry = { ...entry, storedAt: Date.now() };
+
+      await this._storage.set({ key, entry: refreshed });
+
+      return this._toResponse({ entry: refreshed });
+    }
+  }
+
+  /**
+   * Builds the cache key for a request.
+   *
+   * Header names are compared case-insensitively, and the
+   * whole sorted set is hashed with SHA-256 so credentials
+   * never appear in keys.
+   *
+   * @param {MiddlewareRequest} options.request - The outgoing request.
+   *
+   * @returns {Promise<string>} The cache key.
+   */
+  private async _key(options: { request: MiddlewareRequest }): Promise<string> {
+    const { request } = options;
+    const headers = Object.entries(request.headers)
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .sort(([a], [b]) => a.localeCompare(b));
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(headers)));
+    const hash = [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+    return `${request.method} ${request.url} ${hash}`;
+  }
+
+  /**
+   * Builds the invalidation tag for a slug.
+   *
+   * @param {string} options.slug - The `collection` or `global` slug.
+   * @param {boolean} options.global - Whether the slug refers to a `global`.
+   *
+   * @returns {string} The slug, prefixed with `globals/` for globals.
+   */
+  private _tag(options: { slug: string; global: boolean }): string {
+    const { slug, global } = options;
+
+    return global ? `globals/${slug}` : slug;
+  }
+
+  /**
+   * Converts a cache entry into a pipeline response.
+   *
+   * @param {CacheEntry} options.entry - The cached entry.
+   *
+   * @returns {MiddlewareResponse} A response carrying the cached status, headers, and JSON.
+   */
+  private _toResponse(options: { entry: CacheEntry }): MiddlewareResponse {
+    const { entry } = options;
+    const response = new Response(null, { status: entry.status, headers: entry.headers });
+
+    return { response, json: entry.json };
+  }
+}
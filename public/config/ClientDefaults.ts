@@ -0,0 +1,17 @@
+/**
+ * Query parameters added to every request a {@link PayloadSDK} sends,
+ * unless the request already sets them.
+ */
+export type ClientDefaults = {
+  /** The `locale` to read and write. */
+  locale?: string;
+
+  /** The `fallback-locale` used when a field has no value in `locale`. */
+  fallbackLocale?: string;
+
+  /** The relationship population `depth`. */
+  depth?: number;
+
+  /** Whether to read and write `draft` versions. */
+  draft?: boolean;
+};
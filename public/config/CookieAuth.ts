@@ -0,0 +1,44 @@
+import type { IAuthCredential } from "../contracts/IAuthCredential.js";
+import type { CookieJar } from "../cookies/CookieJar.js";
+
+/**
+ * {@link IAuthCredential} for Payload CMS cookie-based authentication.
+ *
+ * Sends requests with `credentials: 'include'` so browsers attach
+ * the HTTP-only `payload-token` cookie. When a {@link CookieJar}
+ * is provided, cookies set by responses (such as `login` and
+ * `refreshToken`) are captured and replayed in the `Cookie`
+ * header instead, for runtimes without a browser cookie store.
+ * The jar is cleared after a successful `logout`.
+ *
+ * @see https://payloadcms.com/docs/authentication/cookies
+ */
+export class CookieAuth implements IAuthCredential {
+  readonly credentials: RequestCredentials = 'include';
+  private readonly _jar: CookieJar | undefined;
+
+  constructor(options?: { jar?: CookieJar }) {
+    const { jar } = options ?? {};
+
+    this._jar = jar;
+  }
+
+  async apply(options: { url: string; headers: Record<string, string> }): Promise<void> {
+    const { url, headers } = options;
+    const cookie = await this._jar?.getCookieHeader({ url });
+
+    if (cookie === undefined) {
+      return;
+    }
+
+    headers['Cookie'] = headers['Cookie'] ? `${headers['Cookie']}; ${cookie}` : cookie;
+  }
+
+  async receive(options: { url: string; response: Response }): Promise<void> {
+    await this._jar?.setCookies(options);
+  }
+
+  async clear(): Promise<void> {
+    await this._jar?.clear();
+  }
+}
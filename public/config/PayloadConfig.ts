@@ -0,0 +1,56 @@
+import type { Json } from "../../types/Json.js";
+
+/**
+ * The schema a {@link PayloadSDK} is typed against.
+ *
+ * Compatible with the `Config` interface Payload generates in
+ * `payload-types.ts`; only `collections` and `globals` are read,
+ * each mapping a slug to its document type.
+ */
+export type PayloadConfig = {
+  collections: object;
+  globals: object;
+};
+
+/**
+ * The default schema: any slug, with untyped {@link Json} documents.
+ */
+export type UntypedConfig = {
+  collections: Record<string, Json>;
+  globals: Record<string, Json>;
+};
+
+/**
+ * The `collection` slugs of a schema.
+ */
+export type CollectionSlug<TConfig extends PayloadConfig> = keyof TConfig['collections'] & string;
+
+/**
+ * The `global` slugs of a schema.
+ */
+export type GlobalSlug<TConfig extends PayloadConfig> = keyof TConfig['globals'] & string;
+
+/**
+ * The document type of a `collection`.
+ */
+export type CollectionDocument<TConfig extends PayloadConfig, TSlug extends CollectionSlug<TConfig>> = TConfig['collections'][TSlug];
+
+/**
+ * The document type of a `global`.
+ */
+export type GlobalDocument<TConfig extends PayloadConfig, TSlug extends GlobalSlug<TConfig>> = TConfig['globals'][TSlug];
+
+/**
+ * Fields Payload CMS sets on every document.
+ */
+type SystemField = 'id' | 'createdAt' | 'updatedAt';
+
+/**
+ * The data accepted when creating a document, which may omit the fields Payload CMS sets.
+ */
+export type CreateData<T> = Omit<T, SystemField> & Partial<Pick<T, SystemField & keyof T>>;
+
+/**
+ * The data accepted when updating a document, where every field is optional.
+ */
+export type UpdateData<T> = Partial<CreateData<T>>;
@@ -0,0 +1,131 @@
+import type { IAuthCredential } from "../contracts/IAuthCredential.js";
+import type { PayloadSDK } from "../PayloadSDK.js";
+import { JwtDecoder } from "../../internal/utils/JwtDecoder.js";
+
+/**
+ * {@link IAuthCredential} for Payload CMS `JWT` authentication
+ * that keeps its token fresh.
+ *
+ * Sets the `Authorization` header to: `Bearer {token}`
+ *
+ * Before a request is sent within `refreshMarginMs` of the
+ * token's `exp`, the token is renewed through the client's
+ * `refreshToken`. When a request is rejected with `401`,
+ * the token is renewed once and the request replayed.
+ * Concurrent renewals share a single `refresh-token` call.
+ *
+ * The `refresh-token` call is sent through `client` with this
+ * credential, so it may also be used as an identity or per call.
+ *
+ * @see https://payloadcms.com/docs/authentication/operations#refresh
+ */
+export class RefreshingJwtAuth implements IAuthCredential {
+  private readonly _client: PayloadSDK;
+  private readonly _slug: string;
+  private readonly _refreshMarginMs: number;
+  private _token: string;
+  private _exp: number | undefined;
+  private _refreshing: Promise<void> | undefined = undefined;
+
+ /**
+  * Creates a new RefreshingJwtAuth.
+  *
+  * @param {PayloadSDK} options.client - The client used to call `refresh-token`.
+  * @param {string} options.slug - The `auth`-enabled `collection` slug that issued the token.
+  * @param {string} options.token - The current token.
+  * @param {number} [options.exp] - The token expiry in seconds since the epoch. Read from the token when omitted.
+  * @param {number} [options.refreshMarginMs=60000] - How long before expiry the token is renewed.
+  */
+  constructor(options: { client: PayloadSDK; slug: string; token: string; exp?: number; refreshMarginMs?: number }) {
+    const { client, slug, token, exp, refreshMarginMs } = options;
+
+    this._client = client;
+    this._slug = slug;
+    this._token = token;
+    this._exp = exp ?? JwtDecoder.exp({ token });
+    this._refreshMarginMs = refreshMarginMs ?? 60_000;
+  }
+
+  /**
+   * The current token.
+   */
+  get token(): string {
+    return this._token;
+  }
+
+  /**
+   * The current token expiry in seconds since the epoch, or `undefined` if unknown.
+   */
+  get exp(): number | undefined {
+    return this._exp;
+  }
+
+  async apply(options: { url: string; headers: Record<string, string> }): Promise<void> {
+    const { url, headers } = options;
+
+    if (!this._isRefreshUrl({ url }) && this._expiresSoon()) {
+      // A failed renewal falls back to the current token; a `401` then triggers `renew`.
+      await this._refresh().catch(() => undefined);
+    }
+
+    headers['Authorization'] = `Bearer ${this._token}`;
+  }
+
+  async renew(options: { url: string }): Promise<boolean> {
+    const { url } = options;
+
+    if (this._isRefreshUrl({ url })) {
+      return false;
+    }
+
+    try {
+      await this._refresh();
+
+      return true;
+    }
+    catch {
+      return false;
+    }
+  }
+
+ /**
+  * Renews the token, sharing any renewal already in flight.
+  *
+  * @returns {Promise<void>}
+  */
+  private _refresh(): Promise<void> {
+    this._refreshing ??= (async () => {
+      const result = await this._client.refreshToken({ slug: this._slug, auth: this });
+
+      this._token = result.refreshedToken;
+      this._exp = result.exp > 0 ? result.exp : JwtDecoder.exp({ token: result.refreshedToken });
+    })().finally(() => {
+      this._refreshing = undefined;
+    });
+
+    return this._refreshing;
+  }
+
+ /**
+  * Checks whether the token expires within the refresh margin.
+  *
+  * @returns {boolean} `true` if the token should be renewed before use.
+  */
+  private _expiresSoon(): boolean {
+    return this._exp !== undefined && this._exp * 1000 - this._refreshMarginMs <= Date.now();
+  }
+
+ /**
+  * Checks whether a URL targets this credential's `refresh-token` endpoint,
+  * which must be sent with the current token rather than wait on itself.
+  *
+  * @param {string} options.url - The request URL.
+  *
+  * @returns {boolean} `true` for the `refresh-token` endpoint.
+  */
+  private _isRefreshUrl(options: { url: string }): boolean {
+    const { url } = options;
+
+    return new URL(url).pathname.endsWith(`/api/${encodeURIComponent(this._slug)}/refresh-token`);
+  }
+}
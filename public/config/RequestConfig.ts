@@ -1,15 +1,27 @@
 import type { HttpMethod } from "../enums/HttpMethod.js";
-import type { Json } from "../../types/Json.js";
+import type { ResponseType } from "../enums/ResponseType.js";
+import type { Json, JsonArray } from "../../types/Json.js";
 import type { QueryBuilder } from "../query/QueryBuilder.js";
+import type { RequestOptions } from "./RequestOptions.js";
+
+/**
+ * A request body accepted by {@link PayloadSDK.request}.
+ *
+ * JSON objects and arrays are serialized; `FormData`, `Blob`,
+ * `URLSearchParams` and strings are sent as-is.
+ */
+export type RequestBody = Json | JsonArray | FormData | Blob | URLSearchParams | string;
 
 /**
  * Options object for {@link PayloadSDK.request}.
  *
- * Mirrors the `RequestConfig` options contract shared across all ports.
+ * Mirrors the `RequestConfig` options contract shared across all ports,
+ * and accepts the per-call {@link RequestOptions} except `signal`.
  */
-export type RequestConfig = {
+export type RequestConfig<T extends ResponseType = ResponseType.Json> = {
   method: HttpMethod;
   path: string;
-  body?: Json;
+  body?: RequestBody;
   query?: QueryBuilder;
-};
+  responseType?: T;
+} & Omit<RequestOptions, 'signal'>;
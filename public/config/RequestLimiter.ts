@@ -0,0 +1,154 @@
+type Waiter = {
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+};
+
+/**
+ * Limits how many requests {@link PayloadSDK} sends at once
+ * and, optionally, how many it starts per time interval.
+ *
+ * Requests beyond either limit wait in a first-in, first-out
+ * queue. A queued request whose `AbortSignal` fires leaves the
+ * queue immediately. The rate limit is a token bucket that
+ * refills continuously and allows bursts up to `burst`.
+ */
+export class RequestLimiter {
+  private readonly _maxConcurrent: number;
+  private readonly _capacity: number;
+  private readonly _refillPerMs: number;
+  private readonly _queue: Waiter[] = [];
+  private _active: number = 0;
+  private _tokens: number;
+  private _lastRefill: number = Date.now();
+  private _timer: ReturnType<typeof setTimeout> | undefined = undefined;
+
+ /**
+  * Creates a new RequestLimiter.
+  *
+  * @param {number} [options.maxConcurrent=Infinity] - Maximum number of requests in flight at once.
+  * @param {number} [options.requestsPerInterval] - Maximum number of requests started per interval. Unlimited when omitted.
+  * @param {number} [options.intervalMs=1000] - The rate limit interval in milliseconds.
+  * @param {number} [options.burst] - Maximum requests that may start back-to-back. Defaults to `requestsPerInterval`.
+  */
+  constructor(options?: { maxConcurrent?: number; requestsPerInterval?: number; intervalMs?: number; burst?: number }) {
+    const { maxConcurrent, requestsPerInterval, intervalMs, burst } = options ?? {};
+
+    this._maxConcurrent = Math.max(1, maxConcurrent ?? Infinity);
+    this._capacity = requestsPerInterval !== undefined ? Math.max(1, burst ?? requestsPerInterval) : Infinity;
+    this._refillPerMs = requestsPerInterval !== undefined ? requestsPerInterval / (intervalMs ?? 1000) : Infinity;
+    this._tokens = this._capacity;
+  }
+
+  /**
+   * The number of requests waiting for a slot.
+   */
+  get pending(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * The number of requests currently in flight.
+   */
+  get active(): number {
+    return this._active;
+  }
+
+  /**
+   * Waits for a slot to send a request.
+   *
+   * The returned function must be called exactly once when
+   * the request completes to free the slot.
+   *
+   * @param {AbortSignal} [options.signal] - Optional abort signal that removes the request from the queue.
+   *
+   * @returns {Promise<() => void>} Resolves with a release function once the request may start.
+   */
+  acquire(options?: { signal?: AbortSignal }): Promise<() => void> {
+    const { signal } = options ?? {};
+
+    return new Promise<() => void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          const index = this._queue.indexOf(waiter);
+
+          if (index !== -1) {
+            this._queue.splice(index, 1);
+            reject(signal?.reason);
+          }
+        },
+      };
+
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+
+      this._queue.push(waiter);
+      this._drain();
+    });
+  }
+
+  /**
+   * Starts queued requests while both limits allow.
+   *
+   * When only the rate limit blocks the queue, schedules
+   * another drain for when the next token is available.
+   *
+   * @returns {void}
+   */
+  private _drain(): void {
+    this._refill();
+
+    while (this._queue.length > 0 && this._active < this._maxConcurrent && this._tokens >= 1) {
+      const waiter = this._queue.shift() as Waiter;
+
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+
+      this._active++;
+      this._tokens -= 1;
+
+      let released = false;
+
+      waiter.resolve(() => {
+        if (released) {
+          return;
+        }
+
+        released = true;
+        this._active--;
+        this._drain();
+      });
+    }
+
+    if (this._queue.length > 0 && this._active < this._maxConcurrent && this._timer === undefined) {
+      const waitMs = Math.ceil((1 - this._tokens) / this._refillPerMs);
+
+      this._timer = setTimeout(() => {
+        this._timer = undefined;
+        this._drain();
+      }, waitMs);
+    }
+  }
+
+  /**
+   * Adds the tokens earned since the last refill.
+   *
+   * @returns {void}
+   */
+  private _refill(): void {
+    const now = Date.now();
+
+    if (this._capacity !== Infinity) {
+      this._tokens = Math.min(this._capacity, this._tokens + (now - this._lastRefill) * this._refillPerMs);
+    }
+
+    this._lastRefill = now;
+  }
+}
@@ -0,0 +1,34 @@
+import type { IAuthCredential } from "../contracts/IAuthCredential.js";
+
+/**
+ * `fetch` options that may be passed through per call.
+ *
+ * Excludes the options the client controls. Includes
+ * Next.js' `next` extension for cache tags and revalidation.
+ */
+export type FetchInit = Omit<RequestInit, 'method' | 'body' | 'headers' | 'signal'> & {
+  next?: { revalidate?: number | false; tags?: string[] };
+};
+
+/**
+ * Per-call options accepted by every {@link PayloadSDK} method.
+ */
+export type RequestOptions = {
+  /** Optional abort signal for cancellation. */
+  signal?: AbortSignal;
+
+  /** Optional timeout in milliseconds, overriding the client default. */
+  timeoutMs?: number;
+
+  /** Optional `auth`-enabled `collection` slug whose registered credential is used for this call. */
+  identity?: string;
+
+  /** Optional headers merged over the client headers for this call. */
+  headers?: Record<string, string>;
+
+  /** Optional credential for this call, overriding the client's, or `null` to send no auth. */
+  auth?: IAuthCredential | null;
+
+  /** Optional {@link FetchInit} passed through to `fetch`, such as `cache`, `keepalive`, or `next`. */
+  init?: FetchInit;
+};
@@ -0,0 +1,108 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+import { PayloadError } from "../PayloadError.js";
+import { PayloadNetworkError } from "../errors/PayloadNetworkError.js";
+import { RetryAfterParser } from "../../internal/utils/RetryAfterParser.js";
+
+/**
+ * Configures automatic retries for transient failures.
+ *
+ * Retries network failures (`TypeError`) and responses whose
+ * status is in `statusCodes`, using exponential backoff with
+ * full jitter. A `Retry-After` header on the response takes
+ * precedence over the computed delay.
+ *
+ * Only idempotent requests (`GET`, and `DELETE` by ID) are
+ * retried unless their method is listed in `methods`.
+ */
+export class RetryPolicy {
+  private readonly _maxAttempts: number;
+  private readonly _baseDelayMs: number;
+  private readonly _maxDelayMs: number;
+  private readonly _jitter: boolean;
+  private readonly _statusCodes: number[];
+  private readonly _methods: HttpMethod[];
+
+ /**
+  * Creates a new RetryPolicy.
+  *
+  * @param {number} [options.maxAttempts=3] - Total attempts per request, including the first.
+  * @param {number} [options.baseDelayMs=300] - Delay before the first retry, doubled on each subsequent retry.
+  * @param {number} [options.maxDelayMs=10000] - Upper bound for any single delay, including `Retry-After`.
+  * @param {boolean} [options.jitter=true] - Randomize each delay between zero and the computed backoff.
+  * @param {number[]} [options.statusCodes=[429, 502, 503, 504]] - Response statuses that trigger a retry.
+  * @param {HttpMethod[]} [options.methods=[]] - Non-idempotent methods to retry as well (e.g. `POST`, `PATCH`).
+  */
+  constructor(options?: {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    jitter?: boolean;
+    statusCodes?: number[];
+    methods?: HttpMethod[];
+  }) {
+    const { maxAttempts, baseDelayMs, maxDelayMs, jitter, statusCodes, methods } = options ?? {};
+
+    this._maxAttempts = Math.max(1, maxAttempts ?? 3);
+    this._baseDelayMs = baseDelayMs ?? 300;
+    this._maxDelayMs = maxDelayMs ?? 10_000;
+    this._jitter = jitter ?? true;
+    this._statusCodes = statusCodes ?? [429, 502, 503, 504];
+    this._methods = methods ?? [];
+  }
+
+  /**
+   * The total number of attempts per request, including the first.
+   */
+  get maxAttempts(): number {
+    return this._maxAttempts;
+  }
+
+  /**
+   * Determines whether a failed attempt should be retried.
+   *
+   * @param {unknown} options.error - The error thrown by the attempt.
+   * @param {HttpMethod} options.method - The request method.
+   * @param {boolean} options.idempotent - Whether the request is safe to repeat.
+   * @param {number} options.attempt - The number of attempts made so far.
+   *
+   * @returns {boolean} `true` if another attempt should be made.
+   */
+  shouldRetry(options: { error: unknown; method: HttpMethod; idempotent: boolean; attempt: number }): boolean {
+    const { error, method, idempotent, attempt } = options;
+
+    if (attempt >= this._maxAttempts) {
+      return false;
+    }
+
+    if (!idempotent && !this._methods.includes(method)) {
+      return false;
+    }
+
+    if (error instanceof PayloadError) {
+      return this._statusCodes.includes(error.statusCode);
+    }
+
+    return error instanceof TypeError || error instanceof PayloadNetworkError;
+  }
+
+  /**
+   * Computes the delay before the next attempt.
+   *
+   * @param {unknown} options.error - The error thrown by the attempt.
+   * @param {number} options.attempt - The number of attempts made so far.
+   *
+   * @returns {number} The delay in milliseconds.
+   */
+  delay(options: { error: unknown; attempt: number }): number {
+    const { error, attempt } = options;
+    const retryAfter = error instanceof PayloadError ? RetryAfterParser.parse({ response: error.response }) : undefined;
+
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this._maxDelayMs);
+    }
+
+    const backoff = Math.min(this._maxDelayMs, this._baseDelayMs * 2 ** (attempt - 1));
+
+    return this._jitter ? Math.random() * backoff : backoff;
+  }
+}
@@ -0,0 +1,60 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+
+/**
+ * Defines a credential that can apply authentication
+ * to an outbound HTTP request's headers.
+ *
+ * Implement this to plug custom authentication into
+ * {@link PayloadSDK.setAuth}, such as credentials fetched
+ * from a secret store, short-lived minted tokens, or
+ * signed requests.
+ */
+export interface IAuthCredential {
+  /**
+   * Optional `fetch` credentials mode for every request,
+   * such as `include` to send browser cookies.
+   */
+  readonly credentials?: RequestCredentials;
+
+  /**
+   * Applies authentication to the given headers object.
+   *
+   * Implementations should add, update, or remove headers
+   * as required by their authentication method. The client
+   * awaits the returned promise before sending the request.
+   * Middleware runs after this and sees the applied headers.
+   *
+   * @param {HttpMethod} options.method - The request method.
+   * @param {string} options.url - The request URL, including the query string.
+   * @param {Record<string, string>} options.headers - The mutable headers object to modify.
+   * @param {BodyInit | undefined} options.body - The request body, or `undefined` if there is none.
+   */
+  apply(options: { method: HttpMethod; url: string; headers: Record<string, string>; body: BodyInit | undefined }): void | Promise<void>;
+
+  /**
+   * Optional hook called with every response received,
+   * such as to capture `Set-Cookie` headers.
+   *
+   * @param {string} options.url - The request URL.
+   * @param {Response} options.response - The received response.
+   */
+  receive?(options: { url: string; response: Response }): Promise<void>;
+
+  /**
+   * Optional hook called when a request is rejected with `401`.
+   *
+   * Implementations may renew their credential and resolve
+   * `true` to have the request replayed once.
+   *
+   * @param {string} options.url - The rejected request URL.
+   *
+   * @returns {Promise<boolean>} `true` if the request should be replayed.
+   */
+  renew?(options: { url: string }): Promise<boolean>;
+
+  /**
+   * Optional hook called after a successful `logout`
+   * to discard any state held by the credential.
+   */
+  clear?(): Promise<void>;
+}
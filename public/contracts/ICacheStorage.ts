@@ -0,0 +1,40 @@
+import type { CacheEntry } from "../cache/CacheEntry.js";
+
+/**
+ * Defines a key-value store for {@link ResponseCache} entries.
+ *
+ * Implementations may be in-memory or backed by an external
+ * store such as Redis; every method may complete asynchronously.
+ */
+export interface ICacheStorage {
+  /**
+   * Reads an entry.
+   *
+   * @param {string} options.key - The cache key.
+   *
+   * @returns {Promise<CacheEntry | undefined>} The stored entry, or `undefined` if absent.
+   */
+  get(options: { key: string }): Promise<CacheEntry | undefined>;
+
+  /**
+   * Writes an entry, replacing any existing entry for the key.
+   *
+   * @param {string} options.key - The cache key.
+   * @param {CacheEntry} options.entry - The entry to store.
+   */
+  set(options: { key: string; entry: CacheEntry }): Promise<void>;
+
+  /**
+   * Removes an entry.
+   *
+   * @param {string} options.key - The cache key.
+   */
+  delete(options: { key: string }): Promise<void>;
+
+  /**
+   * Lists every stored key.
+   *
+   * @returns {Promise<string[]>} The stored keys.
+   */
+  keys(): Promise<string[]>;
+}
@@ -0,0 +1,23 @@
+import type { Cookie } from "../cookies/Cookie.js";
+
+/**
+ * Defines a persistent store for {@link CookieJar} contents.
+ *
+ * Implementations may write to a file, a database, or any
+ * other store that outlives the process.
+ */
+export interface ICookieStorage {
+  /**
+   * Reads the stored cookies.
+   *
+   * @returns {Promise<Cookie[]>} The stored cookies, or an empty array.
+   */
+  load(): Promise<Cookie[]>;
+
+  /**
+   * Replaces the stored cookies.
+   *
+   * @param {Cookie[]} options.cookies - The cookies to store.
+   */
+  save(options: { cookies: Cookie[] }): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import type { LogLevel } from "../enums/LogLevel.js";
+import type { LogEvent } from "../logging/LogEvent.js";
+
+/**
+ * Defines a sink for structured {@link LogEvent}s.
+ *
+ * Implement this to forward request traces to `pino`,
+ * `winston`, OpenTelemetry, or any other logging backend.
+ */
+export interface ILogger {
+  /**
+   * Records a single event.
+   *
+   * @param {LogLevel} options.level - The severity of the event.
+   * @param {LogEvent} options.event - The structured event.
+   */
+  log(options: { level: LogLevel; event: LogEvent }): void;
+}
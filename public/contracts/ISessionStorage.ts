@@ -0,0 +1,28 @@
+import type { SessionState } from "../session/SessionState.js";
+
+/**
+ * Defines a persistent store for the {@link SessionManager} session.
+ *
+ * Implementations may write to memory, Web Storage, a file,
+ * or any other store; every method may complete asynchronously.
+ */
+export interface ISessionStorage {
+  /**
+   * Reads the stored session.
+   *
+   * @returns {Promise<SessionState | undefined>} The stored session, or `undefined` if absent.
+   */
+  load(): Promise<SessionState | undefined>;
+
+  /**
+   * Replaces the stored session.
+   *
+   * @param {SessionState} options.state - The session to store.
+   */
+  save(options: { state: SessionState }): Promise<void>;
+
+  /**
+   * Removes the stored session.
+   */
+  clear(): Promise<void>;
+}
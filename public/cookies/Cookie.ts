@@ -0,0 +1,25 @@
+/**
+ * A cookie stored by {@link CookieJar}.
+ */
+export type Cookie = {
+  /** The cookie name. */
+  name: string;
+
+  /** The cookie value. */
+  value: string;
+
+  /** The lowercase host the cookie belongs to, without a leading dot. */
+  domain: string;
+
+  /** Whether the cookie is sent only to `domain` itself, excluding subdomains. */
+  hostOnly: boolean;
+
+  /** The path prefix the cookie is sent for. */
+  path: string;
+
+  /** Whether the cookie is sent only over `https`. */
+  secure: boolean;
+
+  /** Epoch milliseconds when the cookie expires, or `undefined` for a session cookie. */
+  expiresAt: number | undefined;
+};
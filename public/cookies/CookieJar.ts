@@ -0,0 +1,180 @@
+import type { ICookieStorage } from "../contracts/ICookieStorage.js";
+import type { Cookie } from "./Cookie.js";
+import { SetCookieParser } from "../../internal/utils/SetCookieParser.js";
+
+/**
+ * Stores cookies received from `Set-Cookie` headers and
+ * replays them on matching requests, like a browser would.
+ *
+ * Cookies are held in memory. When an {@link ICookieStorage}
+ * is provided, the jar is loaded from it on first use and
+ * saved back after every change.
+ */
+export class CookieJar {
+  private readonly _storage: ICookieStorage | undefined;
+  private _cookies: Map<string, Cookie> | undefined;
+
+ /**
+  * Creates a new CookieJar.
+  *
+  * @param {ICookieStorage} [options.storage] - Optional persistent {@link ICookieStorage}.
+  */
+  constructor(options?: { storage?: ICookieStorage }) {
+    const { storage } = options ?? {};
+
+    this._storage = storage;
+    this._cookies = storage === undefined ? new Map() : undefined;
+  }
+
+ /**
+  * Builds the `Cookie` header for a request.
+  *
+  * Only unexpired cookies whose domain, path, and `Secure`
+  * flag match the URL are included, longest path first.
+  *
+  * @param {string} options.url - The request URL.
+  *
+  * @returns {Promise<string | undefined>} The header value, or `undefined` if no cookie matches.
+  */
+  async getCookieHeader(options: { url: string }): Promise<string | undefined> {
+    const url = new URL(options.url);
+    const cookies = await this._load();
+    const now = Date.now();
+
+    const matching = [...cookies.values()]
+      .filter(cookie => (cookie.expiresAt === undefined || cookie.expiresAt > now) && this._matches({ cookie, url }))
+      .sort((a, b) => b.path.length - a.path.length);
+
+    if (matching.length === 0) {
+      return undefined;
+    }
+
+    return matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+  }
+
+ /**
+  * Stores the cookies set by a response.
+  *
+  * Cookies that arrive already expired remove any stored
+  * cookie with the same name, domain, and path.
+  *
+  * @param {string} options.url - The URL of the request that received the response.
+  * @param {Response} options.response - The response carrying `Set-Cookie` headers.
+  *
+  * @returns {Promise<void>}
+  */
+  async setCookies(options: { url: string; response: Response }): Promise<void> {
+    const { response } = options;
+    const headers = SetCookieParser.headers({ response });
+
+    if (headers.length === 0) {
+      return;
+    }
+
+    const url = new URL(options.url);
+    const cookies = await this._load();
+    const now = Date.now();
+
+    for (const header of headers) {
+      const cookie = SetCookieParser.parse({ header, url });
+
+      if (cookie === undefined) {
+        continue;
+      }
+
+      const key = `${cookie.domain};${cookie.path};${cookie.name}`;
+
+      if (cookie.expiresAt !== undefined && cookie.expiresAt <= now) {
+        cookies.delete(key);
+      }
+      else {
+        cookies.set(key, cookie);
+      }
+    }
+
+    await this._save();
+  }
+
+ /**
+  * Removes every stored cookie.
+  *
+  * @returns {Promise<void>}
+  */
+  async clear(): Promise<void> {
+    this._cookies = new Map();
+
+    await this._save();
+  }
+
+ /**
+  * Lists every stored cookie.
+  *
+  * @returns {Promise<Cookie[]>} The stored cookies, including expired ones not yet removed.
+  */
+  async cookies(): Promise<Cookie[]> {
+    const cookies = await this._load();
+
+    return [...cookies.values()];
+  }
+
+ /**
+  * Returns the in-memory cookies, loading them from storage on first use.
+  *
+  * @returns {Promise<Map<string, Cookie>>} The cookies keyed by domain, path, and name.
+  */
+  private async _load(): Promise<Map<string, Cookie>> {
+    if (this._cookies !== undefined) {
+      return this._cookies;
+    }
+
+    const storage = this._storage;
+
+    if (storage === undefined) {
+      this._cookies = new Map();
+
+      return this._cookies;
+    }
+
+    const stored = await storage.load();
+
+    this._cookies = new Map(stored.map(cookie => [`${cookie.domain};${cookie.path};${cookie.name}`, cookie]));
+
+    return this._cookies;
+  }
+
+ /**
+  * Writes the in-memory cookies to storage, if configured.
+  *
+  * @returns {Promise<void>}
+  */
+  private async _save(): Promise<void> {
+    if (this._storage === undefined || this._cookies === undefined) {
+      return;
+    }
+
+    await this._storage.save({ cookies: [...this._cookies.values()] });
+  }
+
+ /**
+  * Checks whether a cookie should be sent with a request.
+  *
+  * @param {Cookie} options.cookie - The stored cookie.
+  * @param {URL} options.url - The request URL.
+  *
+  * @returns {boolean} `true` if the domain, path, and scheme match.
+  */
+  private _matches(options: { cookie: Cookie; url: URL }): boolean {
+    const { cookie, url } = options;
+    const host = url.hostname.toLowerCase();
+    const path = url.pathname;
+
+    const domainMatches = cookie.hostOnly
+      ? host === cookie.domain
+      : host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+
+    const pathMatches = path === cookie.path
+      || (path.startsWith(cookie.path) && (cookie.path.endsWith('/') || path[cookie.path.length] === '/'));
+
+    return domainMatches && pathMatches && (!cookie.secure || url.protocol === 'https:');
+  }
+}
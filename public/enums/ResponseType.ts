@@ -0,0 +1,8 @@
+export enum ResponseType {
+  Json = 'json',
+  JsonValue = 'jsonValue',
+  Text = 'text',
+  Blob = 'blob',
+  ArrayBuffer = 'arrayBuffer',
+  Stream = 'stream',
+}
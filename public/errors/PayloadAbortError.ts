@@ -0,0 +1,26 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+import { PayloadSDKError } from "./PayloadSDKError.js";
+
+/**
+ * Thrown when the caller aborts a request via its `AbortSignal`.
+ *
+ * Not thrown for timeouts; see {@link PayloadTimeoutError}.
+ */
+export class PayloadAbortError extends PayloadSDKError {
+  constructor(options: {
+    method?: HttpMethod;
+    url?: string;
+    cause?: unknown;
+    attempts?: number;
+  }) {
+    super({ ...options, message: '[PayloadError] Request was aborted' });
+
+    this.name = 'PayloadAbortError';
+
+    Object.setPrototypeOf(this, PayloadAbortError.prototype);
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,16 @@
+import { PayloadError } from "../PayloadError.js";
+
+/**
+ * {@link PayloadError} for `409` and `423` responses, thrown when
+ * the request conflicts with the current state of the
+ * resource, such as a unique constraint or a locked document.
+ */
+export class PayloadConflictError extends PayloadError {
+  constructor(options: ConstructorParameters<typeof PayloadError>[0]) {
+    super(options);
+
+    this.name = 'PayloadConflictError';
+
+    Object.setPrototypeOf(this, PayloadConflictError.prototype);
+  }
+}
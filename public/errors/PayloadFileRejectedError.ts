@@ -0,0 +1,44 @@
+import { PayloadSDKError } from "./PayloadSDKError.js";
+
+/**
+ * Thrown by a {@link FileUpload} factory when a file breaks
+ * its `allowedTypes` or `maxSize` limits.
+ *
+ * Raised before any request is made.
+ */
+export class PayloadFileRejectedError extends PayloadSDKError {
+  /**
+   * The filename of the rejected file.
+   */
+  public readonly filename: string;
+
+  /**
+   * The MIME type of the rejected file, if known.
+   */
+  public readonly mimeType: string | undefined;
+
+  /**
+   * The size of the rejected file in bytes, if known.
+   */
+  public readonly size: number | undefined;
+
+  constructor(options: {
+    filename: string;
+    mimeType?: string;
+    size?: number;
+    reason: string;
+  }) {
+    super({ message: `[PayloadError] File rejected: ${options.filename} ${options.reason}` });
+
+    this.name = 'PayloadFileRejectedError';
+    this.filename = options.filename;
+    this.mimeType = options.mimeType;
+    this.size = options.size;
+
+    Object.setPrototypeOf(this, PayloadFileRejectedError.prototype);
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,15 @@
+import { PayloadError } from "../PayloadError.js";
+
+/**
+ * {@link PayloadError} for `403` responses, thrown when
+ * the authenticated user lacks access to the requested operation.
+ */
+export class PayloadForbiddenError extends PayloadError {
+  constructor(options: ConstructorParameters<typeof PayloadError>[0]) {
+    super(options);
+
+    this.name = 'PayloadForbiddenError';
+
+    Object.setPrototypeOf(this, PayloadForbiddenError.prototype);
+  }
+}
@@ -0,0 +1,27 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+import { PayloadSDKError } from "./PayloadSDKError.js";
+
+/**
+ * Thrown when the request could not reach the server.
+ *
+ * Covers DNS failures, refused connections, and CORS
+ * rejections, surfaced by `fetch` as a `TypeError`.
+ */
+export class PayloadNetworkError extends PayloadSDKError {
+  constructor(options: {
+    method?: HttpMethod;
+    url?: string;
+    cause?: unknown;
+    attempts?: number;
+  }) {
+    super({ ...options, message: '[PayloadError] Network failure or CORS issue' });
+
+    this.name = 'PayloadNetworkError';
+
+    Object.setPrototypeOf(this, PayloadNetworkError.prototype);
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,15 @@
+import { PayloadError } from "../PayloadError.js";
+
+/**
+ * {@link PayloadError} for `404` responses, thrown when
+ * the requested document, global, or endpoint does not exist.
+ */
+export class PayloadNotFoundError extends PayloadError {
+  constructor(options: ConstructorParameters<typeof PayloadError>[0]) {
+    super(options);
+
+    this.name = 'PayloadNotFoundError';
+
+    Object.setPrototypeOf(this, PayloadNotFoundError.prototype);
+  }
+}
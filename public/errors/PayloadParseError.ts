@@ -0,0 +1,33 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+import { PayloadSDKError } from "./PayloadSDKError.js";
+
+/**
+ * Thrown when a successful response body is not valid JSON.
+ *
+ * The raw body is kept in `body` for inspection.
+ */
+export class PayloadParseError extends PayloadSDKError {
+  /**
+   * The raw response body that failed to parse, if available.
+   */
+  public readonly body: string | undefined;
+
+  constructor(options: {
+    method?: HttpMethod;
+    url?: string;
+    cause?: unknown;
+    attempts?: number;
+    body?: string;
+  }) {
+    super({ ...options, message: '[PayloadError] Failed to parse JSON response' });
+
+    this.name = 'PayloadParseError';
+    this.body = options.body;
+
+    Object.setPrototypeOf(this, PayloadParseError.prototype);
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,23 @@
+import { PayloadError } from "../PayloadError.js";
+import { RetryAfterParser } from "../../internal/utils/RetryAfterParser.js";
+
+/**
+ * {@link PayloadError} for `429` responses, thrown when the
+ * server rejects the request because of rate limiting.
+ */
+export class PayloadRateLimitError extends PayloadError {
+  /**
+   * The delay requested by the `Retry-After` header, in milliseconds.
+   * `undefined` when the server did not send one.
+   */
+  public readonly retryAfterMs: number | undefined;
+
+  constructor(options: ConstructorParameters<typeof PayloadError>[0]) {
+    super(options);
+
+    this.name = 'PayloadRateLimitError';
+    this.retryAfterMs = RetryAfterParser.parse({ response: options.response });
+
+    Object.setPrototypeOf(this, PayloadRateLimitError.prototype);
+  }
+}
@@ -0,0 +1,54 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+
+/**
+ * Base class for every error thrown by {@link PayloadSDK}.
+ *
+ * Carries the request method and URL, the original cause,
+ * and the number of attempts made. Subclasses describe the
+ * kind of failure and whether retrying it may succeed.
+ */
+export class PayloadSDKError extends Error {
+  public readonly method: HttpMethod | undefined;
+  public readonly url: string | undefined;
+  private readonly _summary: string;
+  private _attempts: number = 1;
+
+  constructor(options: {
+    message: string;
+    method?: HttpMethod;
+    url?: string;
+    cause?: unknown;
+    attempts?: number;
+  }) {
+    super(options.message, { cause: options.cause });
+
+    this.name = 'PayloadSDKError';
+    this.method = options.method;
+    this.url = options.url;
+    this._summary = options.message;
+    this.attempts = options.attempts ?? 1;
+
+    Object.setPrototypeOf(this, PayloadSDKError.prototype);
+  }
+
+  /**
+   * The number of attempts made before this error was thrown.
+   * Greater than `1` when a {@link RetryPolicy} retried the request.
+   * Setting it updates the message's attempt count.
+   */
+  get attempts(): number {
+    return this._attempts;
+  }
+
+  set attempts(attempts: number) {
+    this._attempts = attempts;
+    this.message = attempts > 1 ? `${this._summary} after ${attempts} attempts` : this._summary;
+  }
+
+  /**
+   * Whether repeating the same request may succeed.
+   */
+  get isRetryable(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,34 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+import { PayloadSDKError } from "./PayloadSDKError.js";
+
+/**
+ * Thrown when a request exceeds its configured timeout.
+ *
+ * Distinct from a caller-initiated abort, and carries the
+ * configured timeout and the elapsed time.
+ */
+export class PayloadTimeoutError extends PayloadSDKError {
+  public readonly timeoutMs: number;
+  public readonly elapsedMs: number;
+
+  constructor(options: {
+    method: HttpMethod;
+    url: string;
+    timeoutMs: number;
+    elapsedMs: number;
+    cause?: unknown;
+    attempts?: number;
+  }) {
+    super({ ...options, message: `[PayloadError] Request timed out after ${options.elapsedMs}ms: ${options.method} ${options.url}` });
+
+    this.name = 'PayloadTimeoutError';
+    this.timeoutMs = options.timeoutMs;
+    this.elapsedMs = options.elapsedMs;
+
+    Object.setPrototypeOf(this, PayloadTimeoutError.prototype);
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
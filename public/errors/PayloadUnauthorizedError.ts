@@ -0,0 +1,15 @@
+import { PayloadError } from "../PayloadError.js";
+
+/**
+ * {@link PayloadError} for `401` responses, thrown when
+ * the request is not authenticated or its credential has expired.
+ */
+export class PayloadUnauthorizedError extends PayloadError {
+  constructor(options: ConstructorParameters<typeof PayloadError>[0]) {
+    super(options);
+
+    this.name = 'PayloadUnauthorizedError';
+
+    Object.setPrototypeOf(this, PayloadUnauthorizedError.prototype);
+  }
+}
@@ -0,0 +1,57 @@
+import { PayloadError } from "../PayloadError.js";
+
+/**
+ * {@link PayloadError} for `400` responses, thrown when
+ * Payload rejects the submitted data.
+ *
+ * Parses the `data.errors` block of each `ValidationError`
+ * entry, and the `field` of Mongoose validation entries,
+ * into a map of field path to messages.
+ */
+export class PayloadValidationError extends PayloadError {
+  /**
+   * Validation messages keyed by field path (e.g. `"title"`, `"meta.description"`).
+   */
+  public readonly fieldErrors: Record<string, string[]>;
+
+  constructor(options: ConstructorParameters<typeof PayloadError>[0]) {
+    super(options);
+
+    this.name = 'PayloadValidationError';
+
+    const fieldErrors: Record<string, string[]> = {};
+
+    const add = (path: string, message: string): void => {
+      (fieldErrors[path] ??= []).push(message);
+    };
+
+    for (const entry of this.result) {
+      const data = entry.json['data'];
+
+      if (typeof data === 'object' && data !== null && Array.isArray((data as Record<string, unknown>)['errors'])) {
+        for (const item of (data as Record<string, unknown>)['errors'] as unknown[]) {
+          if (typeof item !== 'object' || item === null) {
+            continue;
+          }
+
+          const path = (item as Record<string, unknown>)['path'];
+          const message = (item as Record<string, unknown>)['message'];
+
+          if (typeof path === 'string' && typeof message === 'string') {
+            add(path, message);
+          }
+        }
+
+        continue;
+      }
+
+      if (entry.field !== undefined && entry.message !== undefined) {
+        add(entry.field, entry.message);
+      }
+    }
+
+    this.fieldErrors = fieldErrors;
+
+    Object.setPrototypeOf(this, PayloadValidationError.prototype);
+  }
+}
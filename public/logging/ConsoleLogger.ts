@@ -0,0 +1,51 @@
+import { LogLevel } from "../enums/LogLevel.js";
+import type { ILogger } from "../contracts/ILogger.js";
+import type { LogEvent } from "./LogEvent.js";
+
+/**
+ * {@link ILogger} that writes one line per event to the console.
+ */
+export class ConsoleLogger implements ILogger {
+  log(options: { level: LogLevel; event: LogEvent }): void {
+    const { level, event } = options;
+    const line = this._format({ event });
+
+    switch (level) {
+      case LogLevel.Debug:
+        console.debug(line, event);
+        break;
+      case LogLevel.Info:
+        console.info(line, event);
+        break;
+      case LogLevel.Warn:
+        console.warn(line, event);
+        break;
+      case LogLevel.Error:
+        console.error(line, event);
+        break;
+    }
+  }
+
+  /**
+   * Builds a short human-readable summary of an event.
+   *
+   * @param {LogEvent} options.event - The event to summarize.
+   *
+   * @returns {string} The summary line.
+   */
+  private _format(options: { event: LogEvent }): string {
+    const { event } = options;
+    const prefix = `[PayloadSDK] #${event.requestId} ${event.method} ${event.url}`;
+
+    switch (event.type) {
+      case 'request:start':
+        return `${prefix} →`;
+      case 'request:end':
+        return event.bodySize !== undefined
+          ? `${prefix} ← ${event.status} (${event.durationMs}ms, ${event.bodySize} bytes)`
+          : `${prefix} ← ${event.status} (${event.durationMs}ms)`;
+      case 'request:error':
+        return `${prefix} ✕ (${event.durationMs}ms)`;
+    }
+  }
+}
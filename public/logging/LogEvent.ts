@@ -0,0 +1,54 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+
+/**
+ * Emitted before a request is sent.
+ *
+ * `url` is the final URL including the serialized query string,
+ * and `headers` are the final headers after auth and middleware,
+ * with sensitive values redacted.
+ */
+export type RequestStartEvent = {
+  type: 'request:start';
+  requestId: number;
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  bodySize: number | undefined;
+  body?: string;
+};
+
+/**
+ * Emitted once a response has been received and its body read.
+ *
+ * When the body is left unread for the caller, such as a
+ * streamed `request()` response, `bodySize` is taken from the
+ * `Content-Length` header, or is `undefined` without one.
+ */
+export type RequestEndEvent = {
+  type: 'request:end';
+  requestId: number;
+  method: HttpMethod;
+  url: string;
+  status: number;
+  durationMs: number;
+  bodySize: number | undefined;
+  body?: string;
+};
+
+/**
+ * Emitted when a request fails without a response, such as
+ * a network failure, timeout, or abort.
+ */
+export type RequestErrorEvent = {
+  type: 'request:error';
+  requestId: number;
+  method: HttpMethod;
+  url: string;
+  durationMs: number;
+  error: unknown;
+};
+
+/**
+ * A structured event emitted by {@link RequestLogger}.
+ */
+export type LogEvent = RequestStartEvent | RequestEndEvent | RequestErrorEvent;
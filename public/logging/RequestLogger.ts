@@ -0,0 +1,246 @@
+import { LogLevel } from "../enums/LogLevel.js";
+import type { ILogger } from "../contracts/ILogger.js";
+import type { MiddlewareRequest } from "../middleware/Middleware.js";
+import type { LogEvent } from "./LogEvent.js";
+
+/**
+ * Tracks a single request between its start and end events.
+ */
+export type RequestTrace = {
+  requestId: number;
+  startedAt: number;
+};
+
+const SEVERITY: Record<LogLevel, number> = {
+  [LogLevel.Debug]: 0,
+  [LogLevel.Info]: 1,
+  [LogLevel.Warn]: 2,
+  [LogLevel.Error]: 3,
+};
+
+/**
+ * Emits structured traces for every request {@link PayloadSDK} sends.
+ *
+ * Logs `request:start` at `debug`, `request:end` at `info`
+ * (`warn` for non-2xx statuses), and `request:error` at `error`.
+ * The `Authorization` header and `payload-token` cookie are
+ * redacted by default. Bodies are only logged when enabled,
+ * truncated to `maxBodyLength` characters.
+ */
+export class RequestLogger {
+  private readonly _logger: ILogger;
+  private readonly _level: LogLevel;
+  private readonly _redactHeaders: string[];
+  private readonly _redactCookies: string[];
+  private readonly _logBodies: boolean;
+  private readonly _maxBodyLength: number;
+  private _nextId: number = 1;
+
+ /**
+  * Creates a new RequestLogger.
+  *
+  * @param {ILogger} options.logger - The {@link ILogger} that receives events.
+  * @param {LogLevel} [options.level=LogLevel.Debug] - The minimum level to emit.
+  * @param {string[]} [options.redactHeaders=['Authorization']] - Header names whose values are replaced with `[REDACTED]`.
+  * @param {string[]} [options.redactCookies=['payload-token']] - Cookie names whose values are redacted within the `Cookie` header.
+  * @param {boolean} [options.logBodies=false] - Include request and response bodies in events.
+  * @param {number} [options.maxBodyLength=1000] - Maximum characters of each logged body.
+  */
+  constructor(options: {
+    logger: ILogger;
+    level?: LogLevel;
+    redactHeaders?: string[];
+    redactCookies?: string[];
+    logBodies?: boolean;
+    maxBodyLength?: number;
+  }) {
+    const { logger, level, redactHeaders, redactCookies, logBodies, maxBodyLength } = options;
+
+    this._logger = logger;
+    this._level = level ?? LogLevel.Debug;
+    this._redactHeaders = (redactHeaders ?? ['Authorization']).map(name => name.toLowerCase());
+    this._redactCookies = redactCookies ?? ['payload-token'];
+    this._logBodies = logBodies ?? false;
+    this._maxBodyLength = maxBodyLength ?? 1000;
+  }
+
+  /**
+   * Emits a `request:start` event.
+   *
+   * @param {MiddlewareRequest} options.request - The request about to be sent.
+   *
+   * @returns {RequestTrace} The trace to pass to {@link RequestLogger.end} or {@link RequestLogger.error}.
+   */
+  start(options: { request: MiddlewareRequest }): RequestTrace {
+    const { request } = options;
+    const trace: RequestTrace = { requestId: this._nextId++, startedAt: Date.now() };
+    const body = typeof request.body === 'string' ? request.body : undefined;
+
+    this._emit({
+      level: LogLevel.Debug,
+      event: {
+        type: 'request:start',
+        requestId: trace.requestId,
+        method: request.method,
+        url: request.url,
+        headers: this._redact({ headers: request.headers }),
+        bodySize: body !== undefined ? this._byteLength({ text: body }) : undefined,
+        ...this._body({ text: body }),
+      },
+    });
+
+    return trace;
+  }
+
+  /**
+   * Emits a `request:end` event.
+   *
+   * @param {RequestTrace} options.trace - The trace returned by {@link RequestLogger.start}.
+   * @param {MiddlewareRequest} options.request - The request that was sent.
+   * @param {Response} options.response - The received response.
+   * @param {string} [options.text] - The response body, unless it was left unread for the caller. Its size then falls back to `Content-Length`.
+   *
+   * @returns {void}
+   */
+  end(options: { trace: RequestTrace; request: MiddlewareRequest; response: Response; text?: string }): void {
+    const { trace, request, response, text } = options;
+    const length = Number(response.headers.get('Content-Length') ?? NaN);
+
+    this._emit({
+      level: response.ok ? LogLevel.Info : LogLevel.Warn,
+      event: {
+        type: 'request:end',
+        requestId: trace.requestId,
+        method: request.method,
+        url: request.url,
+        status: response.status,
+        durationMs: Date.now() - trace.startedAt,
+        bodySize: text !== undefined ? this._byteLength({ text }) : Number.isFinite(length) ? length : undefined,
+        ...this._body({ text }),
+      },
+    });
+  }
+
+  /**
+   * Emits a `request:error` event.
+   *
+   * @param {RequestTrace} options.trace - The trace returned by {@link RequestLogger.start}.
+   * @param {MiddlewareRequest} options.request - The request that failed.
+   * @param {unknown} options.error - The error thrown by the transport.
+   *
+   * @returns {void}
+   */
+  error(options: { trace: RequestTrace; request: MiddlewareRequest; error: unknown }): void {
+    const { trace, request, error } = options;
+
+    this._emit({
+      level: LogLevel.Error,
+      event: {
+        type: 'request:error',
+        requestId: trace.requestId,
+        method: request.method,
+        url: request.url,
+        durationMs: Date.now() - trace.startedAt,
+        error,
+      },
+    });
+  }
+
+  /**
+   * Forwards an event to the logger if it meets the minimum level.
+   *
+   * @param {LogLevel} options.level - The severity of the event.
+   * @param {LogEvent} options.event - The structured event.
+   *
+   * @returns {void}
+   */
+  private _emit(options: { level: LogLevel; event: LogEvent }): void {
+    const { level, event } = options;
+
+    if (SEVERITY[level] < SEVERITY[this._level]) {
+      return;
+    }
+
+    this._logger.log({ level, event });
+  }
+
+  /**
+   * Copies headers, redacting sensitive values.
+   *
+   * @param {Record<string, string>} options.headers - The headers to copy.
+   *
+   * @returns {Record<string, string>} The redacted copy.
+   */
+  private _redact(options: { headers: Record<string, string> }): Record<string, string> {
+    const { headers } = options;
+    const result: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(headers)) {
+      if (this._redactHeaders.includes(name.toLowerCase())) {
+        result[name] = '[REDACTED]';
+      }
+      else if (name.toLowerCase() === 'cookie') {
+        result[name] = this._redactCookieHeader({ value });
+      }
+      else {
+        result[name] = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Redacts the configured cookies within a `Cookie` header value.
+   *
+   * @param {string} options.value - The `Cookie` header value.
+   *
+   * @returns {string} The value with matching cookie values replaced.
+   */
+  private _redactCookieHeader(options: { value: string }): string {
+    const { value } = options;
+
+    return value
+      .split(';')
+      .map(pair => {
+        const [name] = pair.split('=', 1);
+
+        return this._redactCookies.includes(name.trim()) ? `${name}=[REDACTED]` : pair;
+      })
+      .join(';');
+  }
+
+  /**
+   * Builds the optional `body` field of an event.
+   *
+   * @param {string | undefined} options.text - The body text, if known.
+   *
+   * @returns {{ body?: string }} The truncated body when body logging is enabled.
+   */
+  private _body(options: { text: string | undefined }): { body?: string } {
+    const { text } = options;
+
+    if (!this._logBodies || text === undefined) {
+      return {};
+    }
+
+    if (text.length <= this._maxBodyLength) {
+      return { body: text };
+    }
+
+    return { body: `${text.slice(0, this._maxBodyLength)}… (${text.length - this._maxBodyLength} more characters)` };
+  }
+
+  /**
+   * Measures the UTF-8 encoded size of a string.
+   *
+   * @param {string} options.text - The text to measure.
+   *
+   * @returns {number} The size in bytes.
+   */
+  private _byteLength(options: { text: string }): number {
+    const { text } = options;
+
+    return new TextEncoder().encode(text).length;
+  }
+}
@@ -0,0 +1,46 @@
+import type { HttpMethod } from "../enums/HttpMethod.js";
+import type { Json } from "../../types/Json.js";
+
+/**
+ * The outgoing request as seen by a {@link Middleware}.
+ *
+ * Headers already include the client defaults and the
+ * applied auth credential. Middlewares may mutate any
+ * field or pass a new object to `next`.
+ */
+export type MiddlewareRequest = {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body: BodyInit | undefined;
+  signal: AbortSignal | undefined;
+};
+
+/**
+ * The incoming response as seen by a {@link Middleware}.
+ *
+ * The `Response` body has already been read; `json` holds
+ * the parsed body, or `undefined` for empty responses. Raw
+ * `request()` calls, which ask for a {@link ResponseType}
+ * other than `Json`, leave the body unread with `json` unset.
+ */
+export type MiddlewareResponse = {
+  response: Response;
+  json: Json | undefined;
+};
+
+/**
+ * Invokes the next layer of the pipeline, or the transport
+ * when called from the innermost middleware.
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<MiddlewareResponse>;
+
+/**
+ * A layer in the {@link PayloadSDK} request pipeline.
+ *
+ * Receives the outgoing request and a `next` function. Call
+ * `next` to continue the chain and inspect or rewrite its
+ * result, catch the {@link PayloadError} it throws, or return
+ * a response without calling `next` to short-circuit.
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<MiddlewareResponse>;
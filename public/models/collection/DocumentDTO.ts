@@ -5,10 +5,11 @@ import type { Json } from "../../../types/Json.js";
  *
  * The `json` field retains the full raw response so
  * user-defined fields remain accessible without the
- * DTO modeling every possible schema.
+ * DTO modeling every possible schema. A client typed with
+ * a {@link PayloadConfig} types `json` as the document.
  */
-export class DocumentDTO {
-  json: Json = {};
+export class DocumentDTO<T = Json> {
+  json: T = {} as T;
   id: string = '';
   createdAt?: Date = undefined;
   updatedAt?: Date = undefined;
@@ -18,14 +19,14 @@ export class DocumentDTO {
   *
   * @param {Json} json - The raw JSON from a Payload CMS endpoint.
   *
-  * @returns {DocumentDTO} A populated instance.
+  * @returns {DocumentDTO<T>} A populated instance.
   */
-  static fromJson(json: Json): DocumentDTO {
-    const dto = new DocumentDTO();
+  static fromJson<T = Json>(json: Json): DocumentDTO<T> {
+    const dto = new DocumentDTO<T>();
     const data = (json ?? {}) as Json;
 
     if(data) {
-      dto.json = data;
+      dto.json = data as T;
     }
 
     if(typeof data['id'] === 'string') {
@@ -46,13 +47,13 @@ export class DocumentDTO {
  /**
   * Maps a {@link DocumentDTO} into a plain JSON object.
   *
-  * @param {DocumentDTO} dto - The instance to serialize.
+  * @param {DocumentDTO<T>} dto - The instance to serialize.
   *
   * @returns {Json} A plain JSON object for transport.
   */
-  static toJson(dto: DocumentDTO): Json {
+  static toJson<T>(dto: DocumentDTO<T>): Json {
     const result: Json = {
-      ...dto.json,
+      ...dto.json as Json,
       id: dto.id,
     };
 
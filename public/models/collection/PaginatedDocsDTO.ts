@@ -4,8 +4,8 @@ import type { Json } from "../../../types/Json.js";
 /**
  * Represents a paginated collection of Payload CMS documents.
  */
-export class PaginatedDocsDTO {
-  docs: DocumentDTO[] = [];
+export class PaginatedDocsDTO<T = Json> {
+  docs: DocumentDTO<T>[] = [];
   hasNextPage: boolean = false;
   hasPrevPage: boolean = false;
   limit: number = 10;
@@ -20,16 +20,16 @@ export class PaginatedDocsDTO {
   *
   * @param {Json} json - The raw JSON from a Payload CMS endpoint.
   *
-  * @returns {PaginatedDocsDTO} A populated instance.
+  * @returns {PaginatedDocsDTO<T>} A populated instance.
   */
-  static fromJson(json: Json): PaginatedDocsDTO {
-    const dto = new PaginatedDocsDTO();
+  static fromJson<T = Json>(json: Json): PaginatedDocsDTO<T> {
+    const dto = new PaginatedDocsDTO<T>();
     const data = (json ?? {}) as Json;
 
     if (Array.isArray(data['docs'])) {
       dto.docs = data['docs']
         .filter((item): item is Json => typeof item === 'object' && item !== null && !Array.isArray(item))
-        .map(doc => DocumentDTO.fromJson(doc));
+        .map(doc => DocumentDTO.fromJson<T>(doc));
     }
 
     if(typeof data['hasNextPage'] === 'boolean') {
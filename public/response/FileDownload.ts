@@ -0,0 +1,24 @@
+import type { ResponseType } from "../enums/ResponseType.js";
+import type { ResponseBody } from "./ResponseBody.js";
+
+/**
+ * The {@link ResponseType} values {@link PayloadSDK.download} can read a file as.
+ */
+export type DownloadType = ResponseType.Blob | ResponseType.ArrayBuffer | ResponseType.Stream;
+
+/**
+ * A file downloaded from an `upload`-enabled `collection`.
+ */
+export type FileDownload<T extends DownloadType = ResponseType.Blob> = {
+  /** The file content, read as the requested {@link DownloadType}. */
+  content: ResponseBody<T>;
+
+  /** The filename of the stored file, or of the requested image size. */
+  filename: string;
+
+  /** The `Content-Type` of the response, falling back to the document's `mimeType`. */
+  contentType: string | undefined;
+
+  /** The size in bytes, or `undefined` for a stream without a `Content-Length`. */
+  contentLength: number | undefined;
+};
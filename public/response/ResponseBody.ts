@@ -0,0 +1,18 @@
+import type { ResponseType } from "../enums/ResponseType.js";
+import type { Json, JsonValue } from "../../types/Json.js";
+
+/**
+ * The value {@link PayloadSDK.request} resolves to for each {@link ResponseType}.
+ *
+ * `Json` keeps the DTO contract and resolves to `undefined` unless
+ * the body is a JSON object; `JsonValue` accepts any JSON value,
+ * including top-level arrays and primitives.
+ */
+export type ResponseBody<T extends ResponseType> = {
+  [ResponseType.Json]: Json | undefined;
+  [ResponseType.JsonValue]: JsonValue | undefined;
+  [ResponseType.Text]: string;
+  [ResponseType.Blob]: Blob;
+  [ResponseType.ArrayBuffer]: ArrayBuffer;
+  [ResponseType.Stream]: ReadableStream<Uint8Array> | null;
+}[T];
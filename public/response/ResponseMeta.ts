@@ -0,0 +1,27 @@
+/**
+ * Metadata of the HTTP response behind a {@link PayloadSDK} call.
+ */
+export type ResponseMeta = {
+  /** The response status code. */
+  status: number;
+
+  /** The response headers. */
+  headers: Headers;
+
+  /** Milliseconds from the start of the call until the response, including retries. */
+  durationMs: number;
+
+  /** The final request URL, after redirects. */
+  url: string;
+};
+
+/**
+ * The result of a call made through {@link PayloadSDK.withResponse}.
+ */
+export type ResponseResult<T> = {
+  /** The value the call resolved to, such as a DTO. */
+  data: T;
+
+  /** The metadata of the call's response. */
+  response: ResponseMeta;
+};
@@ -0,0 +1,151 @@
+import type { ISessionStorage } from "../contracts/ISessionStorage.js";
+import type { SessionState } from "./SessionState.js";
+import { SessionSerializer } from "../../internal/utils/SessionSerializer.js";
+
+/**
+ * {@link ISessionStorage} backed by a JSON file, for Node.js.
+ *
+ * When an `encryptionKey` is provided, the file is encrypted
+ * at rest with AES-GCM using a key derived from it with
+ * PBKDF2 and a random salt stored in the file. The file is
+ * readable and writable by its owner only.
+ */
+export class FileSessionStorage implements ISessionStorage {
+  private static readonly _iterations = 600_000;
+
+  private readonly _path: string;
+  private readonly _encryptionKey: string | undefined;
+  private _salt: Uint8Array<ArrayBuffer> | undefined = undefined;
+  private _keys: Map<string, Promise<CryptoKey>> = new Map();
+
+ /**
+  * Creates a new FileSessionStorage.
+  *
+  * @param {string} options.path - The file the session is stored in.
+  * @param {string} [options.encryptionKey] - Optional secret used to encrypt the file.
+  */
+  constructor(options: { path: string; encryptionKey?: string }) {
+    const { path, encryptionKey } = options;
+
+    this._path = path;
+    this._encryptionKey = encryptionKey;
+  }
+
+  async load(): Promise<SessionState | undefined> {
+    const { readFile } = await import('node:fs/promises');
+
+    let contents: string;
+
+    try {
+      contents = await readFile(this._path, 'utf8');
+    }
+    catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return undefined;
+      }
+
+      throw error;
+    }
+
+    const text = this._encryptionKey === undefined ? contents : await this._decrypt({ contents });
+
+    return text === undefined ? undefined : SessionSerializer.parse({ text });
+  }
+
+  async save(options: { state: SessionState }): Promise<void> {
+    const { state } = options;
+    const { writeFile, chmod } = await import('node:fs/promises');
+    const text = SessionSerializer.stringify({ state });
+    const contents = this._encryptionKey === undefined ? text : await this._encrypt({ text });
+
+    await writeFile(this._path, contents, { encoding: 'utf8', mode: 0o600 });
+    // `mode` only applies when the file is created.
+    await chmod(this._path, 0o600);
+  }
+
+  async clear(): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+
+    await rm(this._path, { force: true });
+  }
+
+ /**
+  * Encrypts text into the stored file format.
+  *
+  * @param {string} options.text - The plaintext.
+  *
+  * @returns {Promise<string>} JSON holding the base64 `salt`, `iv`, and ciphertext.
+  */
+  private async _encrypt(options: { text: string }): Promise<string> {
+    const { text } = options;
+    const salt = this._salt ??= crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this._cryptoKey({ salt }), new TextEncoder().encode(text));
+
+    return JSON.stringify({
+      salt: Buffer.from(salt).toString('base64'),
+      iv: Buffer.from(iv).toString('base64'),
+      data: Buffer.from(data).toString('base64'),
+    });
+  }
+
+ /**
+  * Decrypts the stored file format.
+  *
+  * @param {string} options.contents - The file contents.
+  *
+  * @returns {Promise<string | undefined>} The plaintext, or `undefined` if the file cannot be decrypted with the key.
+  */
+  private async _decrypt(options: { contents: string }): Promise<string | undefined> {
+    const { contents } = options;
+
+    try {
+      const { salt, iv, data } = JSON.parse(contents);
+      const bytes = new Uint8Array(Buffer.from(salt, 'base64'));
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: Buffer.from(iv, 'base64') },
+        await this._cryptoKey({ salt: bytes }),
+        Buffer.from(data, 'base64'),
+      );
+
+      this._salt = bytes;
+
+      return new TextDecoder().decode(plain);
+    }
+    catch {
+      return undefined;
+    }
+  }
+
+ /**
+  * Derives the AES-GCM key from the encryption secret with PBKDF2.
+  *
+  * Keys are cached per salt, as each derivation is deliberately slow.
+  *
+  * @param {Uint8Array} options.salt - The salt stored with the file.
+  *
+  * @returns {Promise<CryptoKey>} The derived key.
+  */
+  private _cryptoKey(options: { salt: Uint8Array<ArrayBuffer> }): Promise<CryptoKey> {
+    const { salt } = options;
+    const id = Buffer.from(salt).toString('base64');
+
+    let key = this._keys.get(id);
+
+    if (key === undefined) {
+      key = crypto.subtle
+        .importKey('raw', new TextEncoder().encode(this._encryptionKey), 'PBKDF2', false, ['deriveKey'])
+        .then(secret => crypto.subtle.deriveKey(
+          { name: 'PBKDF2', salt, iterations: FileSessionStorage._iterations, hash: 'SHA-256' },
+          secret,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt'],
+        ));
+
+      this._keys.set(id, key);
+    }
+
+    return key;
+  }
+}
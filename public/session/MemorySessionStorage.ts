@@ -0,0 +1,26 @@
+import type { ISessionStorage } from "../contracts/ISessionStorage.js";
+import type { SessionState } from "./SessionState.js";
+
+/**
+ * In-memory {@link ISessionStorage}.
+ *
+ * Keeps the session for the lifetime of the instance, such as
+ * to share one session between several {@link SessionManager}s.
+ */
+export class MemorySessionStorage implements ISessionStorage {
+  private _state: SessionState | undefined = undefined;
+
+  async load(): Promise<SessionState | undefined> {
+    return this._state;
+  }
+
+  async save(options: { state: SessionState }): Promise<void> {
+    const { state } = options;
+
+    this._state = state;
+  }
+
+  async clear(): Promise<void> {
+    this._state = undefined;
+  }
+}
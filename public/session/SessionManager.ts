@@ -0,0 +1,157 @@
+import { JwtAuth } from "../config/JwtAuth.js";
+import type { ISessionStorage } from "../contracts/ISessionStorage.js";
+import type { SessionListener, SessionState } from "./SessionState.js";
+
+/**
+ * Tracks the authenticated session of a {@link PayloadSDK}.
+ *
+ * When passed to the client, `login`, `me`, `refreshToken`,
+ * and `resetPassword` store their token, user, and expiry
+ * here, and `logout` clears it. The session token is sent
+ * with every request unless an explicit credential is set.
+ *
+ * When an {@link ISessionStorage} is provided, the session
+ * is restored from it before the first request and saved
+ * back after every change. A stored session whose `exp`
+ * has passed is discarded instead of restored.
+ */
+export class SessionManager {
+  private readonly _storage: ISessionStorage | undefined;
+  private readonly _listeners: Set<SessionListener> = new Set();
+  private _state: SessionState | undefined = undefined;
+  private _credential: JwtAuth | undefined = undefined;
+  private _restoring: Promise<SessionState | undefined> | undefined = undefined;
+  private _version: number = 0;
+
+ /**
+  * Creates a new SessionManager.
+  *
+  * @param {ISessionStorage} [options.storage] - Optional {@link ISessionStorage} the session is persisted to.
+  */
+  constructor(options?: { storage?: ISessionStorage }) {
+    const { storage } = options ?? {};
+
+    this._storage = storage;
+  }
+
+  /**
+   * The current session, or `undefined` if signed out.
+   */
+  get state(): SessionState | undefined {
+    return this._state;
+  }
+
+  /**
+   * The credential for the current session token, or `undefined` if there is none.
+   */
+  get credential(): JwtAuth | undefined {
+    return this._credential;
+  }
+
+ /**
+  * Restores the stored session, once.
+  *
+  * Called by the client before the first request. Later
+  * calls return the same result. A session set or cleared
+  * while restoring takes precedence over the stored one.
+  *
+  * @returns {Promise<SessionState | undefined>} The current session after restoring.
+  */
+  restore(): Promise<SessionState | undefined> {
+    this._restoring ??= this._load();
+
+    return this._restoring;
+  }
+
+ /**
+  * Replaces the current session, notifies listeners, and saves it.
+  *
+  * @param {SessionState} options.state - The new session.
+  *
+  * @returns {Promise<void>}
+  */
+  async set(options: { state: SessionState }): Promise<void> {
+    const { state } = options;
+
+    this._update({ state });
+    await this._storage?.save({ state });
+  }
+
+ /**
+  * Clears the current and stored session and notifies listeners.
+  *
+  * Listeners are not notified if there was no session.
+  *
+  * @returns {Promise<void>}
+  */
+  async clear(): Promise<void> {
+    if (this._state !== undefined) {
+      this._update({ state: undefined });
+    }
+    else {
+      this._version++;
+    }
+
+    await this._storage?.clear();
+  }
+
+ /**
+  * Registers a listener called after every change.
+  *
+  * @param {SessionListener} options.listener - The listener to add.
+  *
+  * @returns {() => void} A function that removes the listener.
+  */
+  subscribe(options: { listener: SessionListener }): () => void {
+    const { listener } = options;
+
+    this._listeners.add(listener);
+
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+ /**
+  * Loads the stored session, discarding it if expired.
+  *
+  * @returns {Promise<SessionState | undefined>} The current session after loading.
+  */
+  private async _load(): Promise<SessionState | undefined> {
+    const version = this._version;
+    const state = await this._storage?.load();
+
+    if (version !== this._version || state === undefined) {
+      return this._state;
+    }
+
+    if (state.exp > 0 && state.exp * 1000 <= Date.now()) {
+      await this._storage?.clear();
+
+      return this._state;
+    }
+
+    this._update({ state });
+
+    return state;
+  }
+
+ /**
+  * Replaces the in-memory session and notifies listeners.
+  *
+  * @param {SessionState | undefined} options.state - The new session, or `undefined` to sign out.
+  *
+  * @returns {void}
+  */
+  private _update(options: { state: SessionState | undefined }): void {
+    const { state } = options;
+
+    this._version++;
+    this._state = state;
+    this._credential = state !== undefined && state.token !== '' ? new JwtAuth({ token: state.token }) : undefined;
+
+    for (const listener of [...this._listeners]) {
+      listener(this._state);
+    }
+  }
+}
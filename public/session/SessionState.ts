@@ -0,0 +1,24 @@
+import type { DocumentDTO } from "../models/collection/DocumentDTO.js";
+
+/**
+ * The authenticated session tracked by {@link SessionManager}.
+ */
+export type SessionState = {
+  /** The `auth`-enabled `collection` slug the user belongs to. */
+  slug: string;
+
+  /** The JWT sent as `Authorization: Bearer {token}`. */
+  token: string;
+
+  /** The token expiry in seconds since the epoch, or `0` if unknown. */
+  exp: number;
+
+  /** The authenticated user. */
+  user: DocumentDTO;
+};
+
+/**
+ * Receives the new state whenever a {@link SessionManager} changes,
+ * or `undefined` once the session is cleared.
+ */
+export type SessionListener = (state: SessionState | undefined) => void;
@@ -0,0 +1,41 @@
+import type { ISessionStorage } from "../contracts/ISessionStorage.js";
+import type { SessionState } from "./SessionState.js";
+import { SessionSerializer } from "../../internal/utils/SessionSerializer.js";
+
+/**
+ * {@link ISessionStorage} backed by a Web Storage area,
+ * such as `localStorage` or `sessionStorage`.
+ */
+export class WebSessionStorage implements ISessionStorage {
+  private readonly _storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+  private readonly _key: string;
+
+ /**
+  * Creates a new WebSessionStorage.
+  *
+  * @param {Storage} options.storage - The storage area, or any object with `getItem`, `setItem`, and `removeItem`.
+  * @param {string} [options.key='payload-session'] - The item key the session is stored under.
+  */
+  constructor(options: { storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>; key?: string }) {
+    const { storage, key } = options;
+
+    this._storage = storage;
+    this._key = key ?? 'payload-session';
+  }
+
+  async load(): Promise<SessionState | undefined> {
+    const text = this._storage.getItem(this._key);
+
+    return text === null ? undefined : SessionSerializer.parse({ text });
+  }
+
+  async save(options: { state: SessionState }): Promise<void> {
+    const { state } = options;
+
+    this._storage.setItem(this._key, SessionSerializer.stringify({ state }));
+  }
+
+  async clear(): Promise<void> {
+    this._storage.removeItem(this._key);
+  }
+}
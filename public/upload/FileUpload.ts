@@ -1,21 +1,230 @@
 import type { IFileUpload } from "../../internal/contracts/IFileUpload.js";
+import { StreamAdapter } from "../../internal/utils/StreamAdapter.js";
+import { MimeDetector } from "../../internal/upload/MimeDetector.js";
+import { PayloadFileRejectedError } from "../errors/PayloadFileRejectedError.js";
+import type { FileUploadLimits } from "./FileUploadLimits.js";
 
 /**
  * Represents a file to upload to a Payload CMS `upload` collection.
  *
  * Pass to the `file` parameter of {@link HttpClient.create},
  * {@link HttpClient.updateById}, or {@link HttpClient.update}.
+ * Files backed by a stream are sent without being buffered
+ * in memory, and can only be uploaded once.
+ *
+ * When `mimeType` is omitted it is inferred from the content's
+ * type or the filename's extension; factories given the bytes
+ * also sniff the file signature.
  */
 export class FileUpload implements IFileUpload {
-  readonly content: Blob;
+  readonly content: Blob | ReadableStream<Uint8Array>;
   readonly filename: string;
   readonly mimeType: string | undefined;
+  readonly size: number | undefined;
 
-  constructor(options: { content: Blob; filename: string; mimeType?: string }) {
-    const { content, filename, mimeType } = options;
+  constructor(options: { content: Blob | ReadableStream<Uint8Array>; filename: string; mimeType?: string; size?: number }) {
+    const { content, filename, mimeType, size } = options;
 
     this.content = content;
     this.filename = filename;
-    this.mimeType = mimeType;
+    this.mimeType = mimeType ?? (content instanceof Blob && content.type !== '' ? content.type : MimeDetector.fromFilename({ filename }));
+    this.size = size ?? (content instanceof Blob ? content.size : undefined);
+  }
+
+ /**
+  * Checks the file against {@link FileUploadLimits}.
+  *
+  * `allowedTypes` entries match a MIME type exactly, or any
+  * subtype when written as `type/*`. A file of unknown type
+  * is rejected when `allowedTypes` is set.
+  *
+  * @param {string[]} [options.allowedTypes] - MIME types the file may have.
+  * @param {number} [options.maxSize] - The maximum size in bytes.
+  *
+  * @returns {void}
+  *
+  * @throws {PayloadFileRejectedError} If the file breaks a limit.
+  */
+  validate(options: FileUploadLimits): void {
+    const { allowedTypes, maxSize } = options;
+    const { filename, mimeType, size } = this;
+
+    if (allowedTypes !== undefined && !allowedTypes.some(type => type === mimeType || (type.endsWith('/*') && mimeType?.startsWith(type.slice(0, -1))))) {
+      throw new PayloadFileRejectedError({ filename, mimeType, size, reason: `has type ${mimeType ?? 'unknown'}, expected ${allowedTypes.join(', ')}` });
+    }
+
+    if (maxSize !== undefined && size !== undefined && size > maxSize) {
+      throw new PayloadFileRejectedError({ filename, mimeType, size, reason: `is ${size} bytes, exceeding ${maxSize}` });
+    }
+  }
+
+ /**
+  * Creates a FileUpload from bytes in memory, such as a Node.js `Buffer`.
+  *
+  * @param {Uint8Array} options.buffer - The file content.
+  * @param {string} options.filename - The filename to use for the upload.
+  * @param {string} [options.mimeType] - Optional MIME type. Inferred from the bytes and extension when omitted.
+  * @param {string[]} [options.allowedTypes] - Optional MIME types the file may have.
+  * @param {number} [options.maxSize] - Optional maximum size in bytes.
+  *
+  * @returns {FileUpload} The file.
+  *
+  * @throws {PayloadFileRejectedError} If the file breaks a limit.
+  */
+  static fromBuffer(options: { buffer: Uint8Array; filename: string; mimeType?: string } & FileUploadLimits): FileUpload {
+    const { buffer, filename } = options;
+    const mimeType = options.mimeType ?? MimeDetector.detect({ filename, bytes: buffer.subarray(0, MimeDetector.sampleSize) });
+    const file = new FileUpload({ content: new Blob([buffer as Uint8Array<ArrayBuffer>]), filename, mimeType });
+
+    file.validate(options);
+
+    return file;
+  }
+
+ /**
+  * Creates a FileUpload from base64-encoded content.
+  *
+  * @param {string} options.base64 - The base64-encoded file content.
+  * @param {string} options.filename - The filename to use for the upload.
+  * @param {string} [options.mimeType] - Optional MIME type. Inferred from the bytes and extension when omitted.
+  * @param {string[]} [options.allowedTypes] - Optional MIME types the file may have.
+  * @param {number} [options.maxSize] - Optional maximum size in bytes.
+  *
+  * @returns {FileUpload} The file.
+  *
+  * @throws {PayloadFileRejectedError} If the file breaks a limit.
+  */
+  static fromBase64(options: { base64: string; filename: string; mimeType?: string } & FileUploadLimits): FileUpload {
+    const { base64, ...rest } = options;
+    const buffer = Uint8Array.from(atob(base64.replace(/\s/g, '')), char => char.charCodeAt(0));
+
+    return FileUpload.fromBuffer({ ...rest, buffer });
+  }
+
+ /**
+  * Creates a FileUpload from a `data:` URL.
+  *
+  * The URL's media type is used unless `mimeType` is given;
+  * without either, the type is inferred from the bytes and extension.
+  *
+  * @param {string} options.dataUrl - The `data:` URL, base64 or percent-encoded.
+  * @param {string} options.filename - The filename to use for the upload.
+  * @param {string} [options.mimeType] - Optional MIME type.
+  * @param {string[]} [options.allowedTypes] - Optional MIME types the file may have.
+  * @param {number} [options.maxSize] - Optional maximum size in bytes.
+  *
+  * @returns {FileUpload} The file.
+  *
+  * @throws {Error} If `dataUrl` is not a `data:` URL.
+  * @throws {PayloadFileRejectedError} If the file breaks a limit.
+  */
+  static fromDataUrl(options: { dataUrl: string; filename: string; mimeType?: string } & FileUploadLimits): FileUpload {
+    const { dataUrl, ...rest } = options;
+    const match = /^data:([^,]*),(.*)$/s.exec(dataUrl);
+
+    if (match === null) {
+      throw new Error('[PayloadError] Invalid data URL');
+    }
+
+    const [, meta, data] = match;
+    const [type, ...parameters] = meta.split(';');
+    const mimeType = options.mimeType ?? (type.includes('/') ? type.trim().toLowerCase() : undefined);
+
+    if (parameters.at(-1) === 'base64') {
+      return FileUpload.fromBase64({ ...rest, mimeType, base64: data });
+    }
+
+    return FileUpload.fromBuffer({ ...rest, mimeType, buffer: new TextEncoder().encode(decodeURIComponent(data)) });
+  }
+
+ /**
+  * Creates a FileUpload from a web `ReadableStream`.
+  *
+  * @param {ReadableStream<Uint8Array>} options.stream - The file content.
+  * @param {string} options.filename - The filename to use for the upload.
+  * @param {string} [options.mimeType] - Optional MIME type. Inferred from the extension when omitted.
+  * @param {number} [options.size] - Optional size in bytes, reported as the upload progress total.
+  * @param {string[]} [options.allowedTypes] - Optional MIME types the file may have.
+  * @param {number} [options.maxSize] - Optional maximum size in bytes, checked when `size` is given.
+  *
+  * @returns {FileUpload} The file.
+  *
+  * @throws {PayloadFileRejectedError} If the file breaks a limit.
+  */
+  static fromStream(options: { stream: ReadableStream<Uint8Array>; filename: string; mimeType?: string; size?: number } & FileUploadLimits): FileUpload {
+    const { stream, filename, mimeType, size } = options;
+    const file = new FileUpload({ content: stream, filename, mimeType, size });
+
+    file.validate(options);
+
+    return file;
+  }
+
+ /**
+  * Creates a FileUpload from a Node.js `Readable` or any async iterable of bytes.
+  *
+  * @param {AsyncIterable<Uint8Array>} options.readable - The file content.
+  * @param {string} options.filename - The filename to use for the upload.
+  * @param {string} [options.mimeType] - Optional MIME type. Inferred from the extension when omitted.
+  * @param {number} [options.size] - Optional size in bytes, reported as the upload progress total.
+  * @param {string[]} [options.allowedTypes] - Optional MIME types the file may have.
+  * @param {number} [options.maxSize] - Optional maximum size in bytes, checked when `size` is given.
+  *
+  * @returns {FileUpload} The file.
+  *
+  * @throws {PayloadFileRejectedError} If the file breaks a limit.
+  */
+  static fromReadable(options: { readable: AsyncIterable<Uint8Array>; filename: string; mimeType?: string; size?: number } & FileUploadLimits): FileUpload {
+    const { readable, ...rest } = options;
+    const stream = StreamAdapter.fromAsyncIterable({ iterable: readable });
+
+    return FileUpload.fromStream({ ...rest, stream });
+  }
+
+ /**
+  * Creates a FileUpload that streams a file from disk, for Node.js.
+  *
+  * The file's leading bytes are read to infer its type; its
+  * content is read when the upload starts.
+  *
+  * @param {string} options.path - The path of the file.
+  * @param {string} [options.filename] - Optional filename to use for the upload. Defaults to the file's name.
+  * @param {string} [options.mimeType] - Optional MIME type. Inferred from the bytes and extension when omitted.
+  * @param {string[]} [options.allowedTypes] - Optional MIME types the file may have.
+  * @param {number} [options.maxSize] - Optional maximum size in bytes.
+  *
+  * @returns {Promise<FileUpload>} The file.
+  *
+  * @throws {PayloadFileRejectedError} If the file breaks a limit.
+  */
+  static async fromPath(options: { path: string; filename?: string; mimeType?: string } & FileUploadLimits): Promise<FileUpload> {
+    const { path, allowedTypes, maxSize } = options;
+    const { open } = await import('node:fs/promises');
+    const { createReadStream } = await import('node:fs');
+    const { basename } = await import('node:path');
+    const filename = options.filename ?? basename(path);
+    const handle = await open(path);
+
+    let size: number;
+    let mimeType: string | undefined = options.mimeType;
+
+    try {
+      size = (await handle.stat()).size;
+
+      if (mimeType === undefined) {
+        const { buffer, bytesRead } = await handle.read(new Uint8Array(MimeDetector.sampleSize), 0, MimeDetector.sampleSize, 0);
+
+        mimeType = MimeDetector.detect({ filename, bytes: buffer.subarray(0, bytesRead) });
+      }
+    }
+    finally {
+      await handle.close();
+    }
+
+    const readable: AsyncIterable<Uint8Array> = {
+      [Symbol.asyncIterator]: () => createReadStream(path)[Symbol.asyncIterator](),
+    };
+
+    return FileUpload.fromReadable({ readable, filename, mimeType, size, allowedTypes, maxSize });
   }
 }
@@ -0,0 +1,10 @@
+/**
+ * Limits a {@link FileUpload} factory enforces before any request is made.
+ */
+export type FileUploadLimits = {
+  /** MIME types the file may have, such as `image/png`, or `image/*` for any image. */
+  allowedTypes?: string[];
+
+  /** The maximum size in bytes. Not enforced for streams of unknown size. */
+  maxSize?: number;
+};
@@ -0,0 +1,15 @@
+import type { DocumentDTO } from "../models/collection/DocumentDTO.js";
+
+/**
+ * The outcome of a {@link MediaImporter} run.
+ */
+export type MediaImportResult = {
+  /** The media document of each imported source URL, whether uploaded or already present. */
+  documents: Map<string, DocumentDTO>;
+
+  /** The source URLs whose file was uploaded by this run. */
+  created: Set<string>;
+
+  /** The error of each source URL that could not be imported. */
+  errors: Map<string, unknown>;
+};
@@ -0,0 +1,188 @@
+import type { PayloadSDK } from "../PayloadSDK.js";
+import type { DocumentDTO } from "../models/collection/DocumentDTO.js";
+import type { Json } from "../../types/Json.js";
+import type { FileUploadLimits } from "./FileUploadLimits.js";
+import type { MediaImportResult } from "./MediaImportResult.js";
+import { FileUpload } from "./FileUpload.js";
+import { QueryBuilder } from "../query/QueryBuilder.js";
+import { Operator } from "../enums/Operator.js";
+
+/**
+ * Imports files from remote URLs into an `upload` collection.
+ *
+ * Each URL is downloaded through the client's transport and
+ * hashed with SHA-256. When `hashField` is set, a document
+ * with the same hash is reused and new documents store their
+ * hash in that field; otherwise documents are matched by
+ * filename. Only files without a match are uploaded, and
+ * identical files within a run are uploaded once.
+ */
+export class MediaImporter {
+  private readonly _client: PayloadSDK;
+  private readonly _slug: string;
+  private readonly _hashField: string | undefined;
+  private readonly _filenameField: string;
+  private readonly _data: ((options: { url: string; hash: string }) => Json) | undefined;
+  private readonly _concurrency: number;
+  private readonly _limits: FileUploadLimits;
+
+ /**
+  * Creates a new MediaImporter.
+  *
+  * @param {PayloadSDK} options.client - The client used to download and upload files.
+  * @param {string} options.slug - The `upload` collection slug.
+  * @param {string} [options.hashField] - Optional field storing each document's content hash, used to find duplicates.
+  * @param {string} [options.filenameField='filename'] - The field used to find duplicates when `hashField` is not set.
+  * @param {(options: { url: string; hash: string }) => Json} [options.data] - Optional document data for each uploaded file, such as `alt` text.
+  * @param {number} [options.concurrency=4] - How many URLs are imported at once.
+  * @param {string[]} [options.allowedTypes] - Optional MIME types the files may have.
+  * @param {number} [options.maxSize] - Optional maximum file size in bytes.
+  */
+  constructor(options: {
+    client: PayloadSDK;
+    slug: string;
+    hashField?: string;
+    filenameField?: string;
+    data?: (options: { url: string; hash: string }) => Json;
+    concurrency?: number;
+  } & FileUploadLimits) {
+    const { client, slug, hashField, filenameField, data, concurrency, allowedTypes, maxSize } = options;
+
+    this._client = client;
+    this._slug = slug;
+    this._hashField = hashField;
+    this._filenameField = filenameField ?? 'filename';
+    this._data = data;
+    this._concurrency = Math.max(1, concurrency ?? 4);
+    this._limits = { allowedTypes, maxSize };
+  }
+
+ /**
+  * Imports each URL, reusing existing documents where possible.
+  *
+  * A URL that fails is recorded in `errors` without stopping
+  * the others.
+  *
+  * @param {string[]} options.urls - The source URLs to import.
+  * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+  *
+  * @returns {Promise<MediaImportResult>} The document, or error, of each URL.
+  */
+  async run(options: { urls: string[]; signal?: AbortSignal }): Promise<MediaImportResult> {
+    const { urls, signal } = options;
+    const result: MediaImportResult = { documents: new Map(), created: new Set(), errors: new Map() };
+    const pending = [...new Set(urls)];
+    const imports = new Map<string, Promise<{ doc: DocumentDTO; created: boolean }>>();
+
+    const worker = async (): Promise<void> => {
+      for (let url = pending.shift(); url !== undefined; url = pending.shift()) {
+        try {
+          const { doc, created } = await this._import({ url, imports, signal });
+
+          result.documents.set(url, doc);
+
+          if (created) {
+            result.created.add(url);
+          }
+        }
+        catch (error: unknown) {
+          result.errors.set(url, error);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this._concurrency, pending.length) }, worker));
+
+    return result;
+  }
+
+ /**
+  * Downloads, hashes, and finds or uploads a single URL.
+  *
+  * @param {string} options.url - The source URL.
+  * @param {Map<string, Promise<{ doc: DocumentDTO; created: boolean }>>} options.imports - The imports of this run, by hash.
+  * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+  *
+  * @returns {Promise<{ doc: DocumentDTO; created: boolean }>} The document, and whether it was uploaded by this call.
+  */
+  private async _import(options: {
+    url: string;
+    imports: Map<string, Promise<{ doc: DocumentDTO; created: boolean }>>;
+    signal?: AbortSignal;
+  }): Promise<{ doc: DocumentDTO; created: boolean }> {
+    const { url, imports, signal } = options;
+    const download = await this._client.download({ slug: this._slug, url, signal });
+    const buffer = new Uint8Array(await download.content.arrayBuffer());
+    const hash = await this._hash({ buffer });
+    const existing = imports.get(hash);
+
+    if (existing !== undefined) {
+      return { doc: (await existing).doc, created: false };
+    }
+
+    const mimeType = download.contentType?.split(';')[0].trim().toLowerCase();
+    const file = FileUpload.fromBuffer({
+      buffer,
+      filename: download.filename !== '' ? download.filename : hash,
+      mimeType: mimeType !== undefined && mimeType !== '' && mimeType !== 'application/octet-stream' ? mimeType : undefined,
+      ...this._limits,
+    });
+
+    const imported = this._findOrCreate({ url, hash, file, signal });
+
+    imports.set(hash, imported);
+
+    return imported;
+  }
+
+ /**
+  * Finds a document matching the file, or uploads it.
+  *
+  * @param {string} options.url - The source URL.
+  * @param {string} options.hash - The file's content hash.
+  * @param {FileUpload} options.file - The downloaded file.
+  * @param {AbortSignal} [options.signal] - Optional abort signal for cancellation.
+  *
+  * @returns {Promise<{ doc: DocumentDTO; created: boolean }>} The document, and whether it was uploaded.
+  */
+  private async _findOrCreate(options: { url: string; hash: string; file: FileUpload; signal?: AbortSignal }): Promise<{ doc: DocumentDTO; created: boolean }> {
+    const { url, hash, file, signal } = options;
+    const slug = this._slug;
+    const field = this._hashField ?? this._filenameField;
+    const value = this._hashField !== undefined ? hash : file.filename;
+
+    const query = new QueryBuilder()
+      .where({ field, operator: Operator.Equals, value })
+      .limit({ value: 1 });
+
+    const { docs } = await this._client.find({ slug, query, signal });
+
+    if (docs.length > 0) {
+      return { doc: docs[0], created: false };
+    }
+
+    const data: Json = { ...this._data?.({ url, hash }) };
+
+    if (this._hashField !== undefined) {
+      data[this._hashField] = hash;
+    }
+
+    const doc = await this._client.create({ slug, data, file, signal });
+
+    return { doc, created: true };
+  }
+
+ /**
+  * Computes the hex-encoded SHA-256 digest of a file.
+  *
+  * @param {Uint8Array} options.buffer - The file content.
+  *
+  * @returns {Promise<string>} The digest.
+  */
+  private async _hash(options: { buffer: Uint8Array }): Promise<string> {
+    const { buffer } = options;
+    const digest = await crypto.subtle.digest('SHA-256', buffer as Uint8Array<ArrayBuffer>);
+
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Reported while a file is uploaded by {@link PayloadSDK.create},
+ * {@link PayloadSDK.update}, or {@link PayloadSDK.updateById}.
+ */
+export type UploadProgress = {
+  /** The number of file bytes sent so far. */
+  bytesSent: number;
+
+  /** The size of the file in bytes, if known. */
+  totalBytes: number | undefined;
+};
+
+/**
+ * Receives {@link UploadProgress} as file bytes are sent.
+ *
+ * Streamed files report every chunk; in-memory files are
+ * sent as `FormData` and report once, when the upload completes.
+ */
+export type UploadProgressListener = (progress: UploadProgress) => void;
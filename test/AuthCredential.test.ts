@@ -0,0 +1,66 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import type { IAuthCredential } from '../public/contracts/IAuthCredential.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { PayloadSDKError } from '../public/errors/PayloadSDKError.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+// Signs each request with a digest of its method, URL, and body, after an async key lookup.
+class SigningCredential implements IAuthCredential {
+  public readonly seen: { method: HttpMethod; url: string; body: BodyInit | undefined }[] = [];
+
+  async apply(options: { method: HttpMethod; url: string; headers: Record<string, string>; body: BodyInit | undefined }): Promise<void> {
+    const { method, url, headers, body } = options;
+    const key = await new Promise<string>(resolve => setTimeout(() => resolve('vault-key'), 5));
+
+    this.seen.push({ method, url, body });
+    headers['X-Signature'] = `${key}:${method}:${url}:${typeof body === 'string' ? body : ''}`;
+  }
+}
+
+harness.add('setAuth should await an async credential before sending', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const credential = new SigningCredential();
+
+  client.setAuth({ auth: credential });
+  await client.create({ slug: 'posts', data: { title: 'Hello' } });
+
+  const headers = mock.last.init?.headers as Record<string, string>;
+
+  TestHarness.assertEqual(headers['X-Signature'], `vault-key:POST:${BASE_URL}/api/posts:{"title":"Hello"}`);
+});
+
+harness.add('the credential should receive the final URL including the query string', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ docs: [] }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const credential = new SigningCredential();
+
+  client.setAuth({ auth: credential });
+  await client.find({ slug: 'posts', query: new QueryBuilder().limit({ value: 5 }) });
+
+  TestHarness.assertEqual(credential.seen[0].method, HttpMethod.GET);
+  TestHarness.assertEqual(credential.seen[0].url, mock.last.url);
+  TestHarness.assertEqual(credential.seen[0].body, undefined);
+});
+
+harness.add('a failing credential should reject the request without sending it', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setAuth({ auth: { apply: async () => { throw new Error('vault unavailable'); } } });
+  const error = await client.find({ slug: 'posts' }).catch(error => error);
+
+  TestHarness.assertTrue(error instanceof PayloadSDKError);
+  TestHarness.assertEqual(error.message, '[PayloadError] vault unavailable');
+  TestHarness.assertEqual(mock.requests.length, 0);
+});
+
+export async function testAuthCredential() {
+  await harness.run('Running AuthCredential tests...\n');
+}
@@ -0,0 +1,138 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { CookieAuth } from '../public/config/CookieAuth.ts';
+import { CookieJar } from '../public/cookies/CookieJar.ts';
+import type { Cookie } from '../public/cookies/Cookie.ts';
+import type { ICookieStorage } from '../public/contracts/ICookieStorage.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'https://payload.test';
+
+function withCookies(body: unknown, cookies: string[]): Response {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+
+  for (const cookie of cookies) {
+    headers.append('Set-Cookie', cookie);
+  }
+
+  return new Response(JSON.stringify(body), { status: 200, headers });
+}
+
+harness.add('CookieAuth should send credentials: include', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setCookieAuth({ auth: new CookieAuth() });
+  await client.me({ slug: 'users' });
+
+  TestHarness.assertEqual(mock.last.init?.credentials, 'include');
+  TestHarness.assertFalse('Cookie' in (mock.last.init?.headers as Record<string, string>));
+});
+
+harness.add('CookieAuth should capture Set-Cookie from login and replay it', async () => {
+  const mock = new MockFetch(({ url }) => url.endsWith('/login')
+    ? withCookies({ token: 't' }, ['payload-token=abc; Path=/; HttpOnly; Secure; SameSite=Lax', 'theme=dark; Path=/admin'])
+    : MockFetch.json({}));
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setCookieAuth({ auth: new CookieAuth({ jar: new CookieJar() }) });
+  await client.login({ slug: 'users', data: { email: 'a@b.c', password: 'pw' } });
+  await client.me({ slug: 'users' });
+
+  const headers = mock.last.init?.headers as Record<string, string>;
+
+  TestHarness.assertEqual(headers['Cookie'], 'payload-token=abc');
+});
+
+harness.add('CookieAuth should replace cookies on refresh and clear them on logout', async () => {
+  let token = 'first';
+
+  const mock = new MockFetch(({ url }) => {
+    if (url.endsWith('/login') || url.endsWith('/refresh-token')) {
+      return withCookies({ refreshedToken: token }, [`payload-token=${token}; Path=/`]);
+    }
+
+    return MockFetch.json({});
+  });
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setCookieAuth({ auth: new CookieAuth({ jar: new CookieJar() }) });
+  await client.login({ slug: 'users', data: {} });
+
+  token = 'second';
+  await client.refreshToken({ slug: 'users' });
+  await client.me({ slug: 'users' });
+
+  TestHarness.assertEqual((mock.last.init?.headers as Record<string, string>)['Cookie'], 'payload-token=second');
+
+  await client.logout({ slug: 'users' });
+  await client.me({ slug: 'users' });
+
+  TestHarness.assertFalse('Cookie' in (mock.last.init?.headers as Record<string, string>));
+});
+
+harness.add('CookieAuth should merge jar cookies with a Cookie header set via setHeaders', async () => {
+  const mock = new MockFetch(() => withCookies({}, ['payload-token=abc; Path=/']));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setHeaders({ headers: { Cookie: 'locale=en' } });
+  client.setCookieAuth({ auth: new CookieAuth({ jar: new CookieJar() }) });
+  await client.me({ slug: 'users' });
+  await client.me({ slug: 'users' });
+
+  TestHarness.assertEqual((mock.last.init?.headers as Record<string, string>)['Cookie'], 'locale=en; payload-token=abc');
+});
+
+harness.add('CookieJar should honor domain, path, secure and expiry', async () => {
+  const jar = new CookieJar();
+
+  await jar.setCookies({
+    url: 'https://api.example.com/api/users/login',
+    response: withCookies({}, [
+      'host=1',
+      'shared=2; Domain=.example.com; Path=/',
+      'secure=3; Path=/; Secure',
+      'admin=4; Path=/admin',
+      'gone=5; Path=/; Max-Age=0',
+      'other=6; Domain=other.com',
+    ]),
+  });
+
+  TestHarness.assertEqual(await jar.getCookieHeader({ url: 'https://api.example.com/api/users/me' }), 'host=1; shared=2; secure=3');
+  TestHarness.assertEqual(await jar.getCookieHeader({ url: 'http://cdn.example.com/' }), 'shared=2');
+  TestHarness.assertEqual(await jar.getCookieHeader({ url: 'https://api.example.com/admin/x' }), 'admin=4; shared=2; secure=3');
+  TestHarness.assertEqual((await jar.cookies()).length, 4);
+
+  await jar.setCookies({ url: 'https://api.example.com/', response: withCookies({}, ['shared=; Domain=example.com; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT']) });
+
+  TestHarness.assertEqual(await jar.getCookieHeader({ url: 'http://cdn.example.com/' }), undefined);
+});
+
+harness.add('CookieJar should load from and save to its storage', async () => {
+  const saved: Cookie[][] = [];
+  const storage: ICookieStorage = {
+    load: async () => [{ name: 'payload-token', value: 'stored', domain: 'payload.test', hostOnly: true, path: '/', secure: false, expiresAt: undefined }],
+    save: async ({ cookies }) => { saved.push(cookies); },
+  };
+
+  const jar = new CookieJar({ storage });
+
+  TestHarness.assertEqual(await jar.getCookieHeader({ url: `${BASE_URL}/api/users/me` }), 'payload-token=stored');
+
+  await jar.setCookies({ url: `${BASE_URL}/api/users/refresh-token`, response: withCookies({}, ['payload-token=fresh; Path=/']) });
+
+  TestHarness.assertEqual(saved.length, 1);
+  TestHarness.assertEqual(saved[0][0].value, 'fresh');
+
+  await jar.clear();
+
+  TestHarness.assertEqual(saved[1], []);
+});
+
+export async function testCookieAuth() {
+  await harness.run('Running CookieAuth tests...\n');
+}
@@ -0,0 +1,158 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { SessionManager } from '../public/session/SessionManager.ts';
+import { ResponseCache } from '../public/cache/ResponseCache.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { DocumentDTO } from '../public/models/collection/DocumentDTO.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+function headers(request: RecordedRequest): Record<string, string> {
+  return request.init?.headers as Record<string, string>;
+}
+
+harness.add('withAuth should use its own credential and leave the parent untouched', async () => {
+  const mock = new MockFetch();
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  parent.setJwtAuth({ auth: new JwtAuth({ token: 'service' }) });
+
+  const alice = parent.withAuth({ auth: new JwtAuth({ token: 'alice' }) });
+  const anonymous = parent.withAuth({ auth: null });
+
+  await Promise.all([alice.find({ slug: 'posts' }), anonymous.find({ slug: 'pages' }), parent.find({ slug: 'media' })]);
+
+  const byUrl = (path: string) => headers(mock.requests.find(({ url }) => url.endsWith(path))!);
+
+  TestHarness.assertEqual(byUrl('/api/posts')['Authorization'], 'Bearer alice');
+  TestHarness.assertFalse('Authorization' in byUrl('/api/pages'));
+  TestHarness.assertEqual(byUrl('/api/media')['Authorization'], 'Bearer service');
+});
+
+harness.add('withAuth should not use or update the parent session', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ token: 'child-token', user: { id: 'u2' } }));
+  const session = new SessionManager();
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await session.set({ state: { slug: 'users', token: 'parent-token', exp: 0, user: new DocumentDTO() } });
+
+  const child = parent.withAuth({ auth: null });
+
+  await child.login({ slug: 'users', data: {} });
+  await child.logout({ slug: 'users' });
+
+  TestHarness.assertFalse('Authorization' in headers(mock.last));
+  TestHarness.assertEqual(session.state?.token, 'parent-token');
+});
+
+harness.add('clearAuth on a derived client should leave the parent session intact', async () => {
+  const mock = new MockFetch();
+  const session = new SessionManager();
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await session.set({ state: { slug: 'users', token: 'parent-token', exp: 0, user: new DocumentDTO() } });
+
+  const child = parent.withHeaders({ headers: { 'X-Tenant': 'acme' } });
+
+  child.clearAuth();
+  await child.find({ slug: 'posts' });
+
+  TestHarness.assertFalse('Authorization' in headers(mock.last));
+
+  await parent.find({ slug: 'posts' });
+
+  TestHarness.assertEqual(session.state?.token, 'parent-token');
+  TestHarness.assertEqual(headers(mock.last)['Authorization'], 'Bearer parent-token');
+});
+
+harness.add('withHeaders should merge over the parent headers', async () => {
+  const mock = new MockFetch();
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  parent.setHeaders({ headers: { 'X-App': 'web', 'X-Tenant': 'default' } });
+
+  const tenant = parent.withHeaders({ headers: { 'X-Tenant': 'acme' } });
+
+  await tenant.find({ slug: 'posts' });
+  TestHarness.assertEqual(headers(mock.last)['X-App'], 'web');
+  TestHarness.assertEqual(headers(mock.last)['X-Tenant'], 'acme');
+
+  tenant.setHeaders({ headers: {} });
+  await parent.find({ slug: 'posts' });
+  TestHarness.assertEqual(headers(mock.last)['X-Tenant'], 'default');
+});
+
+harness.add('withDefaults should add query parameters unless the call sets them', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ docs: [] }));
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, defaults: { depth: 0 } });
+  const swedish = parent.withDefaults({ locale: 'sv', draft: true });
+
+  await swedish.find({ slug: 'posts' });
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/posts?locale=sv&depth=0&draft=true`);
+
+  await swedish.find({ slug: 'posts', query: new QueryBuilder().locale({ value: 'en' }) });
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/posts?locale=en&depth=0&draft=true`);
+
+  await parent.findGlobal({ slug: 'settings' });
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/globals/settings?depth=0`);
+});
+
+harness.add('derived clients should share middleware and cache', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ id: '1' }));
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+  const seen: string[] = [];
+
+  parent.use({ middleware: async (request, next) => { seen.push(request.url); return next(request); } });
+
+  const first = parent.withHeaders({ headers: { 'X-Trace': '1' } });
+  const second = parent.withHeaders({ headers: { 'X-Trace': '1' } });
+
+  await first.findById({ slug: 'posts', id: '1' });
+  await second.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(seen.length, 2);
+  TestHarness.assertEqual(mock.requests.length, 1);
+});
+
+harness.add('use on a derived client should leave the parent and siblings untouched', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ id: '1' }));
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const seen: string[] = [];
+
+  parent.use({ middleware: async (request, next) => { seen.push('parent'); return next(request); } });
+
+  const child = parent.withAuth({ auth: null });
+  const sibling = parent.withAuth({ auth: null });
+
+  child.use({ middleware: async (request, next) => { seen.push('child'); return next(request); } });
+
+  await parent.findById({ slug: 'posts', id: '1' });
+  await sibling.findById({ slug: 'posts', id: '1' });
+  await child.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(seen, ['parent', 'parent', 'parent', 'child']);
+});
+
+harness.add('identities registered on a derived client should be shared with the parent', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ id: '1' }));
+  const parent = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const child = parent.withHeaders({ headers: { 'X-Trace': '1' } });
+
+  child.setIdentity({ slug: 'customers', auth: new JwtAuth({ token: 'customer' }) });
+  await parent.findById({ slug: 'posts', id: '1', identity: 'customers' });
+
+  TestHarness.assertEqual(headers(mock.last)['Authorization'], 'Bearer customer');
+
+  child.clearIdentity({ slug: 'customers' });
+  const error = await parent.findById({ slug: 'posts', id: '1', identity: 'customers' }).catch(error => error);
+
+  TestHarness.assertEqual(error.message, '[PayloadError] No credential registered for identity: customers');
+});
+
+export async function testDerivedClient() {
+  await harness.run('Running DerivedClient tests...\n');
+}
@@ -0,0 +1,143 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { ResponseType } from '../public/enums/ResponseType.ts';
+import { DocumentDTO } from '../public/models/collection/DocumentDTO.ts';
+import { PayloadNotFoundError } from '../public/errors/PayloadNotFoundError.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const media = DocumentDTO.fromJson({
+  id: 'm1',
+  filename: 'photo.jpg',
+  mimeType: 'image/jpeg',
+  url: '/api/media/file/photo.jpg',
+  sizes: {
+    thumbnail: { filename: 'photo-400x300.jpg', mimeType: 'image/jpeg', url: '/api/media/file/photo-400x300.jpg' },
+    card: { filename: null, url: null },
+  },
+});
+
+function headers(request: RecordedRequest): Record<string, string> {
+  return request.init?.headers as Record<string, string>;
+}
+
+function image(): Response {
+  return new Response(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]), { headers: { 'Content-Type': 'image/jpeg', 'Content-Length': '4' } });
+}
+
+async function capture(fn: () => Promise<unknown>): Promise<unknown> {
+  try {
+    await fn();
+  }
+  catch (error: unknown) {
+    return error;
+  }
+
+  throw new Error('Expected the call to throw');
+}
+
+harness.add('download should fetch the document url with the client auth as a Blob', async () => {
+  const mock = new MockFetch(image);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'token' }) });
+
+  const file = await client.download({ slug: 'media', doc: media });
+
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/media/file/photo.jpg`);
+  TestHarness.assertEqual(headers(mock.last)['Authorization'], 'Bearer token');
+  TestHarness.assertTrue(file.content instanceof Blob);
+  TestHarness.assertEqual(file.filename, 'photo.jpg');
+  TestHarness.assertEqual(file.contentType, 'image/jpeg');
+  TestHarness.assertEqual(file.contentLength, 4);
+});
+
+harness.add('download should fetch a named image size', async () => {
+  const mock = new MockFetch(image);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const file = await client.download({ slug: 'media', doc: media, size: 'thumbnail', responseType: ResponseType.ArrayBuffer });
+
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/media/file/photo-400x300.jpg`);
+  TestHarness.assertEqual(file.filename, 'photo-400x300.jpg');
+  TestHarness.assertEqual(Array.from(new Uint8Array(file.content)), [0xff, 0xd8, 0xff, 0xe0]);
+});
+
+harness.add('download should build the file endpoint from a filename', async () => {
+  const mock = new MockFetch(image);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const file = await client.download({ slug: 'media', filename: 'my photo.jpg', responseType: ResponseType.Stream });
+
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/media/file/my%20photo.jpg`);
+  TestHarness.assertEqual(file.contentLength, 4);
+  TestHarness.assertEqual((await new Response(file.content).arrayBuffer()).byteLength, 4);
+});
+
+harness.add('download should not send auth or client headers to another origin', async () => {
+  const mock = new MockFetch(() => new Response('data'));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const doc = DocumentDTO.fromJson({ id: 'm2', filename: 'clip.mp4', mimeType: 'video/mp4', url: 'https://cdn.example.com/clip.mp4' });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'token' }) });
+  client.setHeaders({ headers: { 'X-Internal-Secret': 'secret' } });
+
+  const file = await client.withHeaders({ headers: { 'X-Tenant': 'a' } }).download({ slug: 'media', doc, headers: { 'X-Request-Id': '1' } });
+
+  TestHarness.assertEqual(mock.last.url, 'https://cdn.example.com/clip.mp4');
+  TestHarness.assertEqual(headers(mock.last)['Authorization'], undefined);
+  TestHarness.assertEqual(headers(mock.last)['X-Internal-Secret'], undefined);
+  TestHarness.assertEqual(headers(mock.last)['X-Tenant'], undefined);
+  TestHarness.assertEqual(headers(mock.last)['X-Request-Id'], '1');
+  TestHarness.assertEqual(file.contentType, 'text/plain;charset=UTF-8');
+});
+
+harness.add('withResponse should report the response of a wrapped download', async () => {
+  const mock = new MockFetch(image);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const { data, response } = await client.withResponse({ call: derived => derived.download({ slug: 'media', doc: media }) });
+
+  TestHarness.assertEqual(data.filename, 'photo.jpg');
+  TestHarness.assertEqual(data.contentLength, 4);
+  TestHarness.assertEqual(response.status, 200);
+  TestHarness.assertEqual(response.headers.get('Content-Type'), 'image/jpeg');
+});
+
+harness.add('download should reject unknown sizes and documents without a file', async () => {
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: new MockFetch(image).fetch });
+
+  const unknown = await capture(() => client.download({ slug: 'media', doc: media, size: 'hero' }));
+  const missing = await capture(() => client.download({ slug: 'media', doc: media, size: 'card' }));
+
+  TestHarness.assertEqual((unknown as Error).message, '[PayloadError] Image size not found: hero');
+  TestHarness.assertEqual((missing as Error).message, '[PayloadError] Document has no stored file: m1');
+});
+
+harness.add('download should reject a size without a doc', async () => {
+  const mock = new MockFetch(image);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const named = await capture(() => client.download({ slug: 'media', filename: 'photo.jpg', size: 'thumbnail' }));
+  const linked = await capture(() => client.download({ slug: 'media', url: '/api/media/file/photo.jpg', size: 'thumbnail' }));
+
+  TestHarness.assertEqual((named as Error).message, '[PayloadError] download size requires a doc, not a filename or url');
+  TestHarness.assertEqual((linked as Error).message, '[PayloadError] download size requires a doc, not a filename or url');
+  TestHarness.assertEqual(mock.requests.length, 0);
+});
+
+harness.add('download should throw the typed error for a missing file', async () => {
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: new MockFetch(() => MockFetch.json({ errors: [{ message: 'Not Found' }] }, 404)).fetch });
+
+  const error = await capture(() => client.download({ slug: 'media', filename: 'gone.jpg' }));
+
+  TestHarness.assertTrue(error instanceof PayloadNotFoundError);
+});
+
+export async function testDownload() {
+  await harness.run('Running Download tests...\n');
+}
@@ -0,0 +1,152 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { writeFile, rm } from 'node:fs/promises';
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { FileUpload } from '../public/upload/FileUpload.ts';
+import { PayloadFileRejectedError } from '../public/errors/PayloadFileRejectedError.ts';
+import { MimeDetector } from '../internal/upload/MimeDetector.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+const ZIP = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00, 0x06, 0x00]);
+
+function bytes(text: string, offset: number = 0): Uint8Array {
+  return new Uint8Array([...new Uint8Array(offset), ...new TextEncoder().encode(text)]);
+}
+
+function capture(fn: () => unknown): unknown {
+  try {
+    fn();
+  }
+  catch (error: unknown) {
+    return error;
+  }
+
+  throw new Error('Expected the call to throw');
+}
+
+harness.add('MimeDetector should recognize common file signatures', async () => {
+  const detected = [
+    PNG,
+    new Uint8Array([0xff, 0xd8, 0xff, 0xe0]),
+    bytes('GIF89a'),
+    bytes('RIFF\0\0\0\0WEBP'),
+    bytes('\0\0\0\x20ftypisom'),
+    bytes('\0\0\0\x14ftypqt  '),
+    bytes('\0\0\0\x1cftypheic'),
+    bytes('RIFF\0\0\0\0WAVE'),
+    bytes('ID3\x04'),
+    bytes('%PDF-1.7'),
+    bytes('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>'),
+  ].map(bytes => MimeDetector.fromBytes({ bytes }));
+
+  TestHarness.assertEqual(detected, [
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'video/mp4',
+    'video/quicktime',
+    'image/heic',
+    'audio/wav',
+    'audio/mpeg',
+    'application/pdf',
+    'image/svg+xml',
+  ]);
+
+  TestHarness.assertEqual(MimeDetector.fromBytes({ bytes: bytes('plain text') }), undefined);
+});
+
+harness.add('MimeDetector should prefer the signature but refine containers by extension', async () => {
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'photo.jpg', bytes: PNG }), 'image/png');
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'report.DOCX', bytes: ZIP }), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'archive.bin', bytes: ZIP }), 'application/zip');
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'notes.csv', bytes: bytes('a,b') }), 'text/csv');
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'README' }), undefined);
+});
+
+harness.add('MimeDetector should let a text extension win over a weak signature', async () => {
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'names.csv', bytes: bytes('BMI,weight\n22,70') }), 'text/csv');
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'notes.txt', bytes: bytes('ID3 tags explained') }), 'text/plain');
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'image.bin', bytes: bytes('BM') }), 'image/bmp');
+  TestHarness.assertEqual(MimeDetector.detect({ filename: 'photo.txt', bytes: PNG }), 'image/png');
+
+  const file = FileUpload.fromBuffer({ buffer: bytes('BMI,weight'), filename: 'names.csv', allowedTypes: ['text/*'] });
+
+  TestHarness.assertEqual(file.mimeType, 'text/csv');
+});
+
+harness.add('the constructor should infer the type from the content or extension', async () => {
+  TestHarness.assertEqual(new FileUpload({ content: new Blob(['x'], { type: 'image/gif' }), filename: 'a.png' }).mimeType, 'image/gif');
+  TestHarness.assertEqual(new FileUpload({ content: new Blob(['x']), filename: 'clip.MP4' }).mimeType, 'video/mp4');
+  TestHarness.assertEqual(new FileUpload({ content: new Blob(['x']), filename: 'clip' }).mimeType, undefined);
+});
+
+harness.add('fromBuffer should sniff the bytes', async () => {
+  const file = FileUpload.fromBuffer({ buffer: PNG, filename: 'upload' });
+
+  TestHarness.assertEqual(file.mimeType, 'image/png');
+  TestHarness.assertEqual(file.size, PNG.length);
+});
+
+harness.add('fromBase64 and fromDataUrl should decode the content', async () => {
+  const base64 = Buffer.from(PNG).toString('base64');
+
+  const fromBase64 = FileUpload.fromBase64({ base64, filename: 'pixel' });
+  const fromDataUrl = FileUpload.fromDataUrl({ dataUrl: `data:image/png;base64,${base64}`, filename: 'pixel.png' });
+  const fromText = FileUpload.fromDataUrl({ dataUrl: 'data:,Hello%2C%20World', filename: 'hello.txt' });
+
+  TestHarness.assertEqual(fromBase64.mimeType, 'image/png');
+  TestHarness.assertEqual(Array.from(new Uint8Array(await (fromDataUrl.content as Blob).arrayBuffer())), Array.from(PNG));
+  TestHarness.assertEqual(fromDataUrl.mimeType, 'image/png');
+  TestHarness.assertEqual(await (fromText.content as Blob).text(), 'Hello, World');
+  TestHarness.assertEqual(fromText.mimeType, 'text/plain');
+  TestHarness.assertThrows(() => FileUpload.fromDataUrl({ dataUrl: 'https://example.com/a.png', filename: 'a.png' }), '[PayloadError] Invalid data URL');
+});
+
+harness.add('fromPath should sniff the file on disk', async () => {
+  const path = join(tmpdir(), `payload-mime-${process.pid}.bin`);
+  await writeFile(path, PNG);
+
+  try {
+    const file = await FileUpload.fromPath({ path, allowedTypes: ['image/*'] });
+
+    TestHarness.assertEqual(file.mimeType, 'image/png');
+    TestHarness.assertEqual(file.size, PNG.length);
+  }
+  finally {
+    await rm(path, { force: true });
+  }
+});
+
+harness.add('factories should enforce allowed types and the maximum size', async () => {
+  const type = capture(() => FileUpload.fromBuffer({ buffer: PNG, filename: 'a.png', allowedTypes: ['image/jpeg', 'video/*'] }));
+  const unknown = capture(() => FileUpload.fromBuffer({ buffer: bytes('text'), filename: 'a', allowedTypes: ['image/*'] }));
+  const size = capture(() => FileUpload.fromStream({ stream: new Blob([PNG]).stream(), filename: 'a.png', size: 12, maxSize: 10 }));
+
+  TestHarness.assertTrue(type instanceof PayloadFileRejectedError);
+  TestHarness.assertEqual((type as PayloadFileRejectedError).message, '[PayloadError] File rejected: a.png has type image/png, expected image/jpeg, video/*');
+  TestHarness.assertEqual((unknown as PayloadFileRejectedError).mimeType, undefined);
+  TestHarness.assertEqual((size as PayloadFileRejectedError).message, '[PayloadError] File rejected: a.png is 12 bytes, exceeding 10');
+  TestHarness.assertEqual(FileUpload.fromBuffer({ buffer: PNG, filename: 'a.png', allowedTypes: ['image/*'], maxSize: 12 }).mimeType, 'image/png');
+});
+
+harness.add('files of unknown type should be sent as application/octet-stream', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ doc: { id: '1' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  await client.create({ slug: 'media', data: {}, file: new FileUpload({ content: new Blob(['data']), filename: 'data' }) });
+
+  const file = (mock.last.init?.body as FormData).get('file') as File;
+
+  TestHarness.assertEqual(file.type, 'application/octet-stream');
+});
+
+export async function testFileUpload() {
+  await harness.run('Running FileUpload tests...\n');
+}
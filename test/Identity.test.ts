@@ -0,0 +1,104 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { ApiKeyAuth } from '../public/config/ApiKeyAuth.ts';
+import { CookieAuth } from '../public/config/CookieAuth.ts';
+import { CookieJar } from '../public/cookies/CookieJar.ts';
+import { PayloadSDKError } from '../public/errors/PayloadSDKError.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+function authorization(request: RecordedRequest): string | undefined {
+  return (request.init?.headers as Record<string, string>)['Authorization'];
+}
+
+function client(mock: MockFetch): PayloadSDK {
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setApiKeyAuth({ auth: new ApiKeyAuth({ collectionSlug: 'users', apiKey: 'admin-key' }) });
+  client.setIdentity({ slug: 'customers', auth: new JwtAuth({ token: 'customer-token' }) });
+
+  return client;
+}
+
+harness.add('calls should use the default credential unless an identity is passed', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+
+  await sdk.find({ slug: 'orders' });
+  TestHarness.assertEqual(authorization(mock.last), 'users API-Key admin-key');
+
+  await sdk.find({ slug: 'orders', identity: 'customers' });
+  TestHarness.assertEqual(authorization(mock.last), 'Bearer customer-token');
+});
+
+harness.add('a scoped client should act as its identity without changing the parent', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+  const customer = sdk.as({ slug: 'customers' });
+
+  await customer.findById({ slug: 'orders', id: '1' });
+  TestHarness.assertEqual(authorization(mock.last), 'Bearer customer-token');
+
+  await customer.request({ method: HttpMethod.GET, path: '/api/cart' });
+  TestHarness.assertEqual(authorization(mock.last), 'Bearer customer-token');
+
+  await sdk.findById({ slug: 'orders', id: '1' });
+  TestHarness.assertEqual(authorization(mock.last), 'users API-Key admin-key');
+});
+
+harness.add('a scoped client should see identities updated on the parent', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+  const customer = sdk.as({ slug: 'customers' });
+
+  sdk.setIdentity({ slug: 'customers', auth: new JwtAuth({ token: 'rotated-token' }) });
+  await customer.find({ slug: 'orders' });
+
+  TestHarness.assertEqual(authorization(mock.last), 'Bearer rotated-token');
+});
+
+harness.add('an unknown identity should fail without sending the request', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+
+  sdk.clearIdentity({ slug: 'customers' });
+  const error = await sdk.find({ slug: 'orders', identity: 'customers' }).catch(error => error);
+
+  TestHarness.assertTrue(error instanceof PayloadSDKError);
+  TestHarness.assertEqual(error.message, '[PayloadError] No credential registered for identity: customers');
+  TestHarness.assertEqual(mock.requests.length, 0);
+});
+
+harness.add('logout should clear only the credential of its identity', async () => {
+  const mock = new MockFetch(({ url }) => {
+    const headers = new Headers({ 'Content-Type': 'application/json' });
+
+    if (url.endsWith('/login')) {
+      headers.append('Set-Cookie', 'payload-token=customer; Path=/');
+    }
+
+    return new Response(JSON.stringify({}), { status: 200, headers });
+  });
+
+  const sdk = client(mock);
+  const customer = sdk.as({ slug: 'customers' });
+
+  sdk.setIdentity({ slug: 'customers', auth: new CookieAuth({ jar: new CookieJar() }) });
+  await customer.login({ slug: 'customers', data: {} });
+  await customer.logout({ slug: 'customers' });
+  await customer.me({ slug: 'customers' });
+
+  TestHarness.assertFalse('Cookie' in (mock.last.init?.headers as Record<string, string>));
+
+  await sdk.me({ slug: 'users' });
+  TestHarness.assertEqual(authorization(mock.last), 'users API-Key admin-key');
+});
+
+export async function testIdentity() {
+  await harness.run('Running Identity tests...\n');
+}
@@ -0,0 +1,141 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { MediaImporter } from '../public/upload/MediaImporter.ts';
+import { PayloadNotFoundError } from '../public/errors/PayloadNotFoundError.ts';
+import { PayloadFileRejectedError } from '../public/errors/PayloadFileRejectedError.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x02]);
+
+type Stored = { id: string; filename: string; sha256?: string; alt?: string };
+
+/**
+ * A remote image host and a Payload media collection sharing one transport.
+ */
+function server(files: Record<string, Uint8Array>, stored: Stored[] = []): MockFetch {
+  return new MockFetch(async ({ url, init }: RecordedRequest) => {
+    if (url.startsWith('https://old-cms.example.com/')) {
+      const path = new URL(url).pathname;
+      const file = files[path];
+
+      return file !== undefined
+        ? new Response(file as Uint8Array<ArrayBuffer>, { headers: { 'Content-Type': 'application/octet-stream' } })
+        : MockFetch.json({ errors: [{ message: 'Not Found' }] }, 404);
+    }
+
+    if (init?.method === 'POST') {
+      const form = init.body as FormData;
+      const data = JSON.parse(form.get('_payload') as string);
+      const file = form.get('file') as File;
+      const doc: Stored = { id: String(stored.length + 1), filename: file.name, ...data, mimeType: file.type };
+
+      stored.push(doc);
+
+      return MockFetch.json({ doc });
+    }
+
+    const params = new URL(url).searchParams;
+    const [key, value] = [...params.entries()].find(([key]) => key.startsWith('where'))!;
+    const field = /^where\[(.+)\]\[equals\]$/.exec(key)![1] as keyof Stored;
+
+    return MockFetch.json({ docs: stored.filter(doc => doc[field] === value) });
+  });
+}
+
+function posts(mock: MockFetch): RecordedRequest[] {
+  return mock.requests.filter(({ init }) => init?.method === 'POST');
+}
+
+harness.add('run should upload new files and map each URL to its document', async () => {
+  const stored: Stored[] = [];
+  const mock = server({ '/a.png': PNG, '/b.jpg': JPEG }, stored);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const importer = new MediaImporter({ client, slug: 'media', hashField: 'sha256', data: ({ url }) => ({ alt: url }) });
+
+  const result = await importer.run({ urls: ['https://old-cms.example.com/a.png', 'https://old-cms.example.com/b.jpg'] });
+
+  TestHarness.assertEqual(result.documents.size, 2);
+  TestHarness.assertEqual(result.created.size, 2);
+  TestHarness.assertEqual(result.documents.get('https://old-cms.example.com/a.png')!.json['filename'], 'a.png');
+  TestHarness.assertEqual(result.documents.get('https://old-cms.example.com/a.png')!.json['mimeType'], 'image/png');
+  TestHarness.assertEqual(stored[0].alt, 'https://old-cms.example.com/a.png');
+  TestHarness.assertEqual(stored[0].sha256?.length, 64);
+});
+
+harness.add('run should reuse documents with the same content hash', async () => {
+  const mock = server({ '/a.png': PNG, '/copy.png': PNG });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const importer = new MediaImporter({ client, slug: 'media', hashField: 'sha256', concurrency: 1 });
+
+  const first = await importer.run({ urls: ['https://old-cms.example.com/a.png', 'https://old-cms.example.com/copy.png'] });
+  const second = await importer.run({ urls: ['https://old-cms.example.com/a.png'] });
+
+  TestHarness.assertEqual(posts(mock).length, 1);
+  TestHarness.assertEqual([...first.created], ['https://old-cms.example.com/a.png']);
+  TestHarness.assertEqual(first.documents.get('https://old-cms.example.com/copy.png')!.id, '1');
+  TestHarness.assertEqual(second.created.size, 0);
+  TestHarness.assertEqual(second.documents.get('https://old-cms.example.com/a.png')!.id, '1');
+});
+
+harness.add('identical files imported concurrently should be uploaded once', async () => {
+  const mock = server({ '/a.png': PNG, '/b.png': PNG, '/c.png': PNG });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const importer = new MediaImporter({ client, slug: 'media', hashField: 'sha256', concurrency: 3 });
+
+  const result = await importer.run({ urls: ['/a.png', '/b.png', '/c.png'].map(path => `https://old-cms.example.com${path}`) });
+
+  TestHarness.assertEqual(posts(mock).length, 1);
+  TestHarness.assertEqual(new Set([...result.documents.values()].map(doc => doc.id)).size, 1);
+});
+
+harness.add('without a hash field, documents should be matched by filename', async () => {
+  const mock = server({ '/a.png': PNG }, [{ id: '9', filename: 'a.png' }]);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const importer = new MediaImporter({ client, slug: 'media' });
+
+  const result = await importer.run({ urls: ['https://old-cms.example.com/a.png'] });
+
+  TestHarness.assertEqual(posts(mock).length, 0);
+  TestHarness.assertEqual(result.documents.get('https://old-cms.example.com/a.png')!.id, '9');
+});
+
+harness.add('failed URLs should be reported without stopping the others', async () => {
+  const mock = server({ '/a.png': PNG, '/b.jpg': JPEG });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const importer = new MediaImporter({ client, slug: 'media', hashField: 'sha256', allowedTypes: ['image/png'] });
+
+  const result = await importer.run({ urls: ['https://old-cms.example.com/missing.png', 'https://old-cms.example.com/b.jpg', 'https://old-cms.example.com/a.png'] });
+
+  TestHarness.assertTrue(result.errors.get('https://old-cms.example.com/missing.png') instanceof PayloadNotFoundError);
+  TestHarness.assertTrue(result.errors.get('https://old-cms.example.com/b.jpg') instanceof PayloadFileRejectedError);
+  TestHarness.assertEqual([...result.documents.keys()], ['https://old-cms.example.com/a.png']);
+});
+
+harness.add('remote downloads should not carry the client auth, headers, or defaults', async () => {
+  const mock = server({ '/a.png': PNG });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, defaults: { locale: 'en' } });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'token' }) });
+  client.setHeaders({ headers: { 'X-Internal-Secret': 'secret' } });
+
+  await new MediaImporter({ client, slug: 'media', hashField: 'sha256' }).run({ urls: ['https://old-cms.example.com/a.png'] });
+
+  const download = mock.requests[0];
+  const upload = posts(mock)[0];
+
+  TestHarness.assertEqual(download.url, 'https://old-cms.example.com/a.png');
+  TestHarness.assertEqual((download.init?.headers as Record<string, string>)['Authorization'], undefined);
+  TestHarness.assertEqual((download.init?.headers as Record<string, string>)['X-Internal-Secret'], undefined);
+  TestHarness.assertEqual((upload.init?.headers as Record<string, string>)['Authorization'], 'Bearer token');
+  TestHarness.assertEqual((upload.init?.headers as Record<string, string>)['X-Internal-Secret'], 'secret');
+});
+
+export async function testMediaImporter() {
+  await harness.run('Running MediaImporter tests...\n');
+}
@@ -0,0 +1,115 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { PayloadError } from '../public/PayloadError.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+harness.add('middlewares should run in registration order', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const calls: string[] = [];
+
+  client.use({ middleware: async (request, next) => { calls.push('a:in'); const result = await next(request); calls.push('a:out'); return result; } });
+  client.use({ middleware: async (request, next) => { calls.push('b:in'); const result = await next(request); calls.push('b:out'); return result; } });
+
+  await client.findGlobal({ slug: 'settings' });
+
+  TestHarness.assertEqual(calls, ['a:in', 'b:in', 'b:out', 'a:out']);
+});
+
+harness.add('middleware should be able to modify the outgoing request', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.use({
+    middleware: (request, next) => {
+      request.headers['X-Correlation-Id'] = 'abc-123';
+
+      return next({ ...request, url: `${request.url}?locale=sv` });
+    },
+  });
+
+  await client.findGlobal({ slug: 'settings' });
+
+  const headers = mock.last.init?.headers as Record<string, string>;
+
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/globals/settings?locale=sv`);
+  TestHarness.assertEqual(headers['X-Correlation-Id'], 'abc-123');
+  TestHarness.assertEqual(headers['Accept'], 'application/json');
+});
+
+harness.add('middleware should see the method and body', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ doc: { id: '1' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  let seen: unknown[] = [];
+
+  client.use({ middleware: (request, next) => { seen = [request.method, request.body]; return next(request); } });
+
+  await client.create({ slug: 'posts', data: { title: 'Hi' } });
+
+  TestHarness.assertEqual(seen, [HttpMethod.POST, JSON.stringify({ title: 'Hi' })]);
+});
+
+harness.add('middleware should be able to rewrite the parsed response', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ id: '1', title: 'Original' }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.use({
+    middleware: async (request, next) => {
+      const result = await next(request);
+
+      return { ...result, json: { ...result.json, title: 'Rewritten' } };
+    },
+  });
+
+  const result = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(result.json['title'], 'Rewritten');
+});
+
+harness.add('middleware should be able to short-circuit the request', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.use({ middleware: async () => ({ response: new Response(null, { status: 200 }), json: { id: 'cached' } }) });
+
+  const result = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 0);
+  TestHarness.assertEqual(result.id, 'cached');
+});
+
+harness.add('middleware should be able to catch PayloadError', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ errors: [{ message: 'Not Found' }] }, 404));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  let status: number | undefined = undefined;
+
+  client.use({
+    middleware: async (request, next) => {
+      try {
+        return await next(request);
+      }
+      catch (error) {
+        if (error instanceof PayloadError) {
+          status = error.statusCode;
+          return { response: error.response ?? new Response(null), json: { id: 'fallback' } };
+        }
+
+        throw error;
+      }
+    },
+  });
+
+  const result = await client.findById({ slug: 'posts', id: 'missing' });
+
+  TestHarness.assertEqual(status, 404);
+  TestHarness.assertEqual(result.id, 'fallback');
+});
+
+export async function testMiddleware() {
+  await harness.run('Running Middleware tests...\n');
+}
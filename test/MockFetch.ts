@@ -0,0 +1,46 @@
+import type { FetchFunction } from '../types/FetchFunction.ts';
+
+export type RecordedRequest = {
+  url: string;
+  init: RequestInit | undefined;
+};
+
+type Handler = (request: RecordedRequest) => Response | Promise<Response>;
+
+/**
+ * In-process stand-in for a Payload CMS server.
+ *
+ * Records every request it receives and answers with the
+ * response produced by the supplied handler.
+ */
+class MockFetch {
+  public readonly requests: RecordedRequest[] = [];
+  private _handler: Handler;
+
+  constructor(handler?: Handler) {
+    this._handler = handler ?? (() => MockFetch.json({}));
+  }
+
+  get fetch(): FetchFunction {
+    return async (input: string, init?: RequestInit): Promise<Response> => {
+      const request: RecordedRequest = { url: input, init };
+
+      this.requests.push(request);
+
+      return this._handler(request);
+    };
+  }
+
+  get last(): RecordedRequest {
+    return this.requests[this.requests.length - 1];
+  }
+
+  static json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+}
+
+export { MockFetch };
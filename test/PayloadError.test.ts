@@ -1,4 +1,11 @@
 import { PayloadError } from '../public/PayloadError.ts';
+import { PayloadValidationError } from '../public/errors/PayloadValidationError.ts';
+import { PayloadUnauthorizedError } from '../public/errors/PayloadUnauthorizedError.ts';
+import { PayloadForbiddenError } from '../public/errors/PayloadForbiddenError.ts';
+import { PayloadNotFoundError } from '../public/errors/PayloadNotFoundError.ts';
+import { PayloadConflictError } from '../public/errors/PayloadConflictError.ts';
+import { PayloadRateLimitError } from '../public/errors/PayloadRateLimitError.ts';
+import { PayloadErrorFactory } from '../internal/errors/PayloadErrorFactory.ts';
 import { TestHarness } from './TestHarness.ts';
 
 const harness = new TestHarness();
@@ -188,6 +195,80 @@ harness.add('message defaults to status code message', () => {
   TestHarness.assertEqual(error.message, '[PayloadError] Request failed with status: 404');
 });
 
+// ── status-specific subclasses ────────────────────────────────────
+
+harness.add('factory maps statuses to subclasses', () => {
+  TestHarness.assertTrue(PayloadErrorFactory.create({ statusCode: 400 }) instanceof PayloadValidationError);
+  TestHarness.assertTrue(PayloadErrorFactory.create({ statusCode: 401 }) instanceof PayloadUnauthorizedError);
+  TestHarness.assertTrue(PayloadErrorFactory.create({ statusCode: 403 }) instanceof PayloadForbiddenError);
+  TestHarness.assertTrue(PayloadErrorFactory.create({ statusCode: 404 }) instanceof PayloadNotFoundError);
+  TestHarness.assertTrue(PayloadErrorFactory.create({ statusCode: 409 }) instanceof PayloadConflictError);
+  TestHarness.assertTrue(PayloadErrorFactory.create({ statusCode: 423 }) instanceof PayloadConflictError);
+  TestHarness.assertTrue(PayloadErrorFactory.create({ statusCode: 429 }) instanceof PayloadRateLimitError);
+});
+
+harness.add('factory falls back to PayloadError for other statuses', () => {
+  const error = PayloadErrorFactory.create({ statusCode: 500 });
+
+  TestHarness.assertEqual(error.constructor.name, 'PayloadError');
+  TestHarness.assertEqual(error.name, 'PayloadError');
+});
+
+harness.add('subclasses remain PayloadError instances', () => {
+  const error = PayloadErrorFactory.create({ statusCode: 404 });
+
+  TestHarness.assertTrue(error instanceof PayloadError);
+  TestHarness.assertEqual(error.statusCode, 404);
+  TestHarness.assertEqual(error.name, 'PayloadNotFoundError');
+});
+
+harness.add('validation error maps data.errors to field paths', () => {
+  const error = new PayloadValidationError({
+    statusCode: 400,
+    body: JSON.stringify({
+      errors: [{
+        name: 'ValidationError',
+        message: 'The following fields are invalid: title, meta.description',
+        data: {
+          collection: 'posts',
+          errors: [
+            { message: 'This field is required.', path: 'title' },
+            { message: 'Too short.', path: 'title' },
+            { message: 'Too long.', path: 'meta.description' },
+          ],
+        },
+      }],
+    }),
+  });
+
+  TestHarness.assertEqual(error.fieldErrors, {
+    'title': ['This field is required.', 'Too short.'],
+    'meta.description': ['Too long.'],
+  });
+});
+
+harness.add('validation error maps Mongoose field entries', () => {
+  const error = new PayloadValidationError({
+    statusCode: 400,
+    body: JSON.stringify({ errors: [{ message: 'Value must be unique', field: 'email' }] }),
+  });
+
+  TestHarness.assertEqual(error.fieldErrors, { email: ['Value must be unique'] });
+});
+
+harness.add('validation error has empty fieldErrors without a body', () => {
+  const error = new PayloadValidationError({ statusCode: 400 });
+
+  TestHarness.assertEqual(error.fieldErrors, {});
+});
+
+harness.add('rate limit error exposes Retry-After', () => {
+  const response = new Response(null, { status: 429, headers: { 'Retry-After': '30' } });
+  const error = new PayloadRateLimitError({ statusCode: 429, response });
+
+  TestHarness.assertEqual(error.retryAfterMs, 30_000);
+});
+
 export async function testPayloadError() {
   await harness.run('Running PayloadError tests...\n');
 }
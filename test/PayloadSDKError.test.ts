@@ -0,0 +1,130 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { PayloadError } from '../public/PayloadError.ts';
+import { PayloadSDKError } from '../public/errors/PayloadSDKError.ts';
+import { PayloadNetworkError } from '../public/errors/PayloadNetworkError.ts';
+import { PayloadAbortError } from '../public/errors/PayloadAbortError.ts';
+import { PayloadParseError } from '../public/errors/PayloadParseError.ts';
+import { PayloadTimeoutError } from '../public/errors/PayloadTimeoutError.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const capture = async (fn: () => Promise<unknown>): Promise<unknown> => {
+  try {
+    await fn();
+  }
+  catch (error) {
+    return error;
+  }
+
+  return undefined;
+};
+
+// ── hierarchy ─────────────────────────────────────────────────────
+
+harness.add('all error types share the PayloadSDKError base', () => {
+  const errors = [
+    new PayloadError({ statusCode: 500 }),
+    new PayloadNetworkError({}),
+    new PayloadAbortError({}),
+    new PayloadParseError({}),
+    new PayloadTimeoutError({ method: HttpMethod.GET, url: BASE_URL, timeoutMs: 1, elapsedMs: 1 }),
+  ];
+
+  for (const error of errors) {
+    TestHarness.assertTrue(error instanceof PayloadSDKError);
+    TestHarness.assertTrue(error instanceof Error);
+  }
+});
+
+harness.add('isRetryable reflects the kind of failure', () => {
+  TestHarness.assertTrue(new PayloadNetworkError({}).isRetryable);
+  TestHarness.assertTrue(new PayloadTimeoutError({ method: HttpMethod.GET, url: BASE_URL, timeoutMs: 1, elapsedMs: 1 }).isRetryable);
+  TestHarness.assertFalse(new PayloadAbortError({}).isRetryable);
+  TestHarness.assertFalse(new PayloadParseError({}).isRetryable);
+  TestHarness.assertTrue(new PayloadError({ statusCode: 503 }).isRetryable);
+  TestHarness.assertFalse(new PayloadError({ statusCode: 404 }).isRetryable);
+});
+
+harness.add('message includes the attempt count when retried', () => {
+  const error = new PayloadNetworkError({ attempts: 3 });
+
+  TestHarness.assertEqual(error.message, '[PayloadError] Network failure or CORS issue after 3 attempts');
+  TestHarness.assertEqual(error.attempts, 3);
+});
+
+// ── client mapping ────────────────────────────────────────────────
+
+harness.add('network failures surface as PayloadNetworkError', async () => {
+  const cause = new TypeError('fetch failed');
+  const mock = new MockFetch(() => { throw cause; });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const error = await capture(() => client.findById({ slug: 'posts', id: '1' }));
+
+  TestHarness.assertTrue(error instanceof PayloadNetworkError);
+  TestHarness.assertEqual((error as PayloadNetworkError).method, HttpMethod.GET);
+  TestHarness.assertEqual((error as PayloadNetworkError).url, `${BASE_URL}/api/posts/1`);
+  TestHarness.assertTrue((error as PayloadNetworkError).cause === cause);
+});
+
+harness.add('invalid JSON surfaces as PayloadParseError with the raw body', async () => {
+  const mock = new MockFetch(() => new Response('<html>oops</html>', { status: 200 }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const error = await capture(() => client.find({ slug: 'posts' }));
+
+  TestHarness.assertTrue(error instanceof PayloadParseError);
+  TestHarness.assertEqual((error as PayloadParseError).body, '<html>oops</html>');
+  TestHarness.assertTrue((error as PayloadParseError).cause instanceof SyntaxError);
+});
+
+harness.add('caller aborts surface as PayloadAbortError', async () => {
+  const controller = new AbortController();
+  const mock = new MockFetch(({ init }) => {
+    throw init?.signal?.reason;
+  });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  controller.abort();
+
+  const error = await capture(() => client.create({ slug: 'posts', data: {}, signal: controller.signal }));
+
+  TestHarness.assertTrue(error instanceof PayloadAbortError);
+  TestHarness.assertEqual((error as PayloadAbortError).method, HttpMethod.POST);
+});
+
+harness.add('caller aborts with a custom reason surface as PayloadAbortError', async () => {
+  const controller = new AbortController();
+  const reason = new Error('user navigated away');
+  const mock = new MockFetch(({ init }) => {
+    throw init?.signal?.reason;
+  });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  controller.abort(reason);
+
+  const error = await capture(() => client.find({ slug: 'posts', signal: controller.signal }));
+
+  TestHarness.assertTrue(error instanceof PayloadAbortError);
+  TestHarness.assertTrue((error as PayloadAbortError).cause === reason);
+});
+
+harness.add('PayloadError carries the request method and URL', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ errors: [] }, 403));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const error = await capture(() => client.deleteById({ slug: 'posts', id: '1' }));
+
+  TestHarness.assertTrue(error instanceof PayloadError);
+  TestHarness.assertEqual((error as PayloadError).method, HttpMethod.DELETE);
+  TestHarness.assertEqual((error as PayloadError).url, `${BASE_URL}/api/posts/1`);
+});
+
+export async function testPayloadSDKError() {
+  await harness.run('Running PayloadSDKError tests...\n');
+}
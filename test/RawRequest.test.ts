@@ -0,0 +1,153 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { ResponseType } from '../public/enums/ResponseType.ts';
+import { PayloadNotFoundError } from '../public/errors/PayloadNotFoundError.ts';
+import { PayloadParseError } from '../public/errors/PayloadParseError.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+function headers(request: RecordedRequest): Record<string, string> {
+  return request.init?.headers as Record<string, string>;
+}
+
+function text(body: string, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(body, { status, headers: { 'Content-Type': 'text/plain', ...headers } });
+}
+
+async function capture(fn: () => Promise<unknown>): Promise<unknown> {
+  try {
+    await fn();
+  }
+  catch (error: unknown) {
+    return error;
+  }
+
+  throw new Error('Expected the call to throw');
+}
+
+harness.add('JSON bodies, including arrays, should be serialized as application/json', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  await client.request({ method: HttpMethod.POST, path: '/api/bulk', body: [{ id: '1' }, { id: '2' }] });
+
+  TestHarness.assertEqual(mock.last.init?.body, '[{"id":"1"},{"id":"2"}]');
+  TestHarness.assertEqual(headers(mock.last)['Content-Type'], 'application/json');
+});
+
+harness.add('string bodies should be sent as-is with text/plain unless a content type is set', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  await client.request({ method: HttpMethod.POST, path: '/api/notes', body: 'hello' });
+
+  TestHarness.assertEqual(mock.last.init?.body, 'hello');
+  TestHarness.assertEqual(headers(mock.last)['Content-Type'], 'text/plain;charset=UTF-8');
+
+  await client.request({ method: HttpMethod.POST, path: '/api/import', body: 'id,title\n1,Hello', headers: { 'content-type': 'text/csv' } });
+
+  TestHarness.assertEqual(headers(mock.last)['content-type'], 'text/csv');
+  TestHarness.assertEqual(headers(mock.last)['Content-Type'], undefined);
+});
+
+harness.add('FormData, Blob and URLSearchParams bodies should let fetch set the content type', async () => {
+  const mock = new MockFetch();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const form = new FormData();
+  form.append('title', 'Hello');
+
+  const blob = new Blob(['binary'], { type: 'application/octet-stream' });
+  const params = new URLSearchParams({ email: 'user@example.com' });
+
+  for (const body of [form, blob, params]) {
+    await client.request({ method: HttpMethod.POST, path: '/api/custom', body });
+
+    TestHarness.assertTrue(mock.last.init?.body === body);
+    TestHarness.assertEqual(headers(mock.last)['Content-Type'], undefined);
+  }
+});
+
+harness.add('JsonValue should return top-level arrays and primitives', async () => {
+  let body: unknown = [{ id: '1' }, { id: '2' }];
+  const mock = new MockFetch(() => MockFetch.json(body));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const list = await client.request({ method: HttpMethod.GET, path: '/api/tags', responseType: ResponseType.JsonValue });
+
+  TestHarness.assertEqual(list, [{ id: '1' }, { id: '2' }]);
+  TestHarness.assertEqual(headers(mock.last)['Accept'], 'application/json');
+
+  body = 42;
+
+  TestHarness.assertEqual(await client.request({ method: HttpMethod.GET, path: '/api/count', responseType: ResponseType.JsonValue }), 42);
+});
+
+harness.add('Json should keep resolving to undefined for non-object bodies', async () => {
+  const mock = new MockFetch(() => MockFetch.json([1, 2, 3]));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  TestHarness.assertEqual(await client.request({ method: HttpMethod.GET, path: '/api/tags' }), undefined);
+});
+
+harness.add('Text should return the body and accept any content type', async () => {
+  const mock = new MockFetch(() => text('id,title\n1,Hello', 200, { 'Content-Type': 'text/csv' }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const csv = await client.request({ method: HttpMethod.GET, path: '/api/export', responseType: ResponseType.Text });
+
+  TestHarness.assertEqual(csv, 'id,title\n1,Hello');
+  TestHarness.assertEqual(headers(mock.last)['Accept'], '*/*');
+});
+
+harness.add('Blob and ArrayBuffer should return the binary body', async () => {
+  const bytes = new Uint8Array([0, 1, 2, 255]);
+  const mock = new MockFetch(() => new Response(bytes, { headers: { 'Content-Type': 'application/octet-stream' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const blob = await client.request({ method: HttpMethod.GET, path: '/api/archive', responseType: ResponseType.Blob });
+  const buffer = await client.request({ method: HttpMethod.GET, path: '/api/archive', responseType: ResponseType.ArrayBuffer });
+
+  TestHarness.assertEqual(blob.size, 4);
+  TestHarness.assertEqual(blob.type, 'application/octet-stream');
+  TestHarness.assertEqual(Array.from(new Uint8Array(buffer)), [0, 1, 2, 255]);
+});
+
+harness.add('Stream should return the unread body', async () => {
+  const mock = new MockFetch(() => text('streamed'));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, dedupe: true });
+
+  const stream = await client.request({ method: HttpMethod.GET, path: '/api/feed', responseType: ResponseType.Stream });
+
+  TestHarness.assertEqual(await new Response(stream).text(), 'streamed');
+});
+
+harness.add('raw requests should send auth and throw the typed error on failure', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ errors: [{ message: 'Not Found' }] }, 404));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'token' }) });
+
+  const error = await capture(() => client.request({ method: HttpMethod.GET, path: '/api/export', responseType: ResponseType.Text }));
+
+  TestHarness.assertTrue(error instanceof PayloadNotFoundError);
+  TestHarness.assertEqual(headers(mock.last)['Authorization'], 'Bearer token');
+});
+
+harness.add('JsonValue should throw a PayloadParseError for invalid JSON', async () => {
+  const mock = new MockFetch(() => text('not json'));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const error = await capture(() => client.request({ method: HttpMethod.GET, path: '/api/tags', responseType: ResponseType.JsonValue }));
+
+  TestHarness.assertTrue(error instanceof PayloadParseError);
+});
+
+export async function testRawRequest() {
+  await harness.run('Running RawRequest tests...\n');
+}
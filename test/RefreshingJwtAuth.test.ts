@@ -0,0 +1,181 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { RefreshingJwtAuth } from '../public/config/RefreshingJwtAuth.ts';
+import { PayloadUnauthorizedError } from '../public/errors/PayloadUnauthorizedError.ts';
+import { PayloadError } from '../public/PayloadError.ts';
+import { RetryPolicy } from '../public/config/RetryPolicy.ts';
+import { SessionManager } from '../public/session/SessionManager.ts';
+import { DocumentDTO } from '../public/models/collection/DocumentDTO.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+// Builds an unsigned token expiring `seconds` from now.
+function jwt(name: string, seconds: number): string {
+  const payload = btoa(JSON.stringify({ name, exp: Math.floor(Date.now() / 1000) + seconds }));
+
+  return `header.${payload.replace(/=+$/, '')}.signature`;
+}
+
+function authorization(request: RecordedRequest): string {
+  return (request.init?.headers as Record<string, string>)['Authorization'];
+}
+
+harness.add('exp should be read from the token when omitted', async () => {
+  const token = jwt('a', 3600);
+  const auth = new RefreshingJwtAuth({ client: new PayloadSDK({ baseUrl: BASE_URL }), slug: 'users', token });
+
+  TestHarness.assertEqual(auth.exp, Math.floor(Date.now() / 1000) + 3600);
+});
+
+harness.add('a token close to expiry should be refreshed before the request', async () => {
+  const fresh = jwt('fresh', 3600);
+  const mock = new MockFetch(({ url }) => url.endsWith('/refresh-token')
+    ? MockFetch.json({ refreshedToken: fresh, exp: 123 })
+    : MockFetch.json({ docs: [] }));
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+  const stale = jwt('stale', 10);
+  const auth = new RefreshingJwtAuth({ client, slug: 'users', token: stale });
+
+  client.setJwtAuth({ auth });
+  await client.find({ slug: 'posts' });
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+  TestHarness.assertEqual(authorization(mock.requests[0]), `Bearer ${stale}`);
+  TestHarness.assertEqual(authorization(mock.requests[1]), `Bearer ${fresh}`);
+  TestHarness.assertEqual(auth.exp, 123);
+});
+
+harness.add('concurrent requests should share one refresh', async () => {
+  const mock = new MockFetch(({ url }) => url.endsWith('/refresh-token')
+    ? MockFetch.json({ refreshedToken: jwt('fresh', 3600) })
+    : MockFetch.json({ docs: [] }));
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setJwtAuth({ auth: new RefreshingJwtAuth({ client, slug: 'users', token: jwt('stale', 10) }) });
+  await Promise.all([client.find({ slug: 'posts' }), client.find({ slug: 'pages' }), client.count({ slug: 'posts' })]);
+
+  TestHarness.assertEqual(mock.requests.filter(({ url }) => url.endsWith('/refresh-token')).length, 1);
+  TestHarness.assertEqual(mock.requests.length, 4);
+});
+
+harness.add('a 401 should refresh and replay the request once', async () => {
+  const fresh = jwt('fresh', 3600);
+  const mock = new MockFetch((request) => {
+    if (request.url.endsWith('/refresh-token')) {
+      return MockFetch.json({ refreshedToken: fresh });
+    }
+
+    return authorization(request) === `Bearer ${fresh}`
+      ? MockFetch.json({ id: '1' })
+      : MockFetch.json({ errors: [{ message: 'Unauthorized' }] }, 401);
+  });
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setJwtAuth({ auth: new RefreshingJwtAuth({ client, slug: 'users', token: jwt('revoked', 3600) }) });
+  const doc = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(doc.id, '1');
+  TestHarness.assertEqual(mock.requests.length, 3);
+});
+
+harness.add('a second 401 should not refresh again', async () => {
+  const mock = new MockFetch(({ url }) => url.endsWith('/refresh-token')
+    ? MockFetch.json({ refreshedToken: jwt('fresh', 3600) })
+    : MockFetch.json({ errors: [{ message: 'Unauthorized' }] }, 401));
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setJwtAuth({ auth: new RefreshingJwtAuth({ client, slug: 'users', token: jwt('revoked', 3600) }) });
+  const error = await client.findById({ slug: 'posts', id: '1' }).catch(error => error);
+
+  TestHarness.assertTrue(error instanceof PayloadUnauthorizedError);
+  TestHarness.assertEqual(mock.requests.length, 3);
+});
+
+harness.add('the replay after a refresh should not use up a retry attempt', async () => {
+  const fresh = jwt('fresh', 3600);
+  const statuses = [503];
+  const mock = new MockFetch((request) => {
+    if (request.url.endsWith('/refresh-token')) {
+      return MockFetch.json({ refreshedToken: fresh });
+    }
+
+    if (authorization(request) !== `Bearer ${fresh}`) {
+      return MockFetch.json({ errors: [{ message: 'Unauthorized' }] }, 401);
+    }
+
+    const status = statuses.shift();
+
+    return status !== undefined ? MockFetch.json({ errors: [] }, status) : MockFetch.json({ id: '1' });
+  });
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ maxAttempts: 2, baseDelayMs: 1 }) });
+
+  client.setJwtAuth({ auth: new RefreshingJwtAuth({ client, slug: 'users', token: jwt('revoked', 3600) }) });
+  const doc = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(doc.id, '1');
+  TestHarness.assertEqual(mock.requests.length, 4);
+});
+
+harness.add('a refresh should replay the request even with a single attempt', async () => {
+  const fresh = jwt('fresh', 3600);
+  const mock = new MockFetch((request) => {
+    if (request.url.endsWith('/refresh-token')) {
+      return MockFetch.json({ refreshedToken: fresh });
+    }
+
+    return authorization(request) === `Bearer ${fresh}`
+      ? MockFetch.json({ errors: [] }, 503)
+      : MockFetch.json({ errors: [{ message: 'Unauthorized' }] }, 401);
+  });
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ maxAttempts: 1, baseDelayMs: 1 }) });
+
+  client.setJwtAuth({ auth: new RefreshingJwtAuth({ client, slug: 'users', token: jwt('revoked', 3600) }) });
+  const error = await client.findById({ slug: 'posts', id: '1' }).catch(error => error);
+
+  TestHarness.assertTrue(error instanceof PayloadError);
+  TestHarness.assertEqual(error.statusCode, 503);
+  TestHarness.assertEqual(error.attempts, 1);
+  TestHarness.assertEqual(mock.requests.length, 3);
+});
+
+harness.add('a rejected refresh should surface the original 401', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ errors: [{ message: 'Unauthorized' }] }, 401));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setJwtAuth({ auth: new RefreshingJwtAuth({ client, slug: 'users', token: jwt('expired', -10) }) });
+  const error = await client.findById({ slug: 'posts', id: '1' }).catch(error => error);
+
+  TestHarness.assertTrue(error instanceof PayloadUnauthorizedError);
+  TestHarness.assertEqual(error.url, `${BASE_URL}/api/posts/1`);
+});
+
+harness.add('a per-call refreshing credential should leave the session untouched', async () => {
+  const fresh = jwt('fresh', 3600);
+  const mock = new MockFetch(({ url }) => url.endsWith('/refresh-token')
+    ? MockFetch.json({ refreshedToken: fresh, exp: 123 })
+    : MockFetch.json({ docs: [] }));
+
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+  const auth = new RefreshingJwtAuth({ client, slug: 'admins', token: jwt('stale', 10) });
+
+  await session.set({ state: { slug: 'users', token: 'session-token', exp: 0, user: new DocumentDTO() } });
+  await client.find({ slug: 'posts', auth });
+
+  TestHarness.assertEqual(authorization(mock.last), `Bearer ${fresh}`);
+  TestHarness.assertEqual(session.state?.slug, 'users');
+  TestHarness.assertEqual(session.state?.token, 'session-token');
+});
+
+export async function testRefreshingJwtAuth() {
+  await harness.run('Running RefreshingJwtAuth tests...\n');
+}
@@ -0,0 +1,118 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { PayloadAbortError } from '../public/errors/PayloadAbortError.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+// Yields to the event loop until the condition holds, letting pending microtasks run first.
+const until = async (condition: () => boolean): Promise<void> => {
+  while (!condition()) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+// Responds after a short delay, or rejects when its signal aborts.
+const delayed = (ms: number = 20): MockFetch => new MockFetch(({ init }: RecordedRequest) => new Promise<Response>((resolve, reject) => {
+  const timer = setTimeout(() => resolve(MockFetch.json({ id: '1', title: 'Shared' })), ms);
+
+  init?.signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(init.signal?.reason);
+  });
+}));
+
+harness.add('concurrent identical reads should share one request', async () => {
+  const mock = delayed();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, dedupe: true });
+
+  const results = await Promise.all([
+    client.findById({ slug: 'posts', id: '1' }),
+    client.findById({ slug: 'posts', id: '1' }),
+    client.findById({ slug: 'posts', id: '1' }),
+  ]);
+
+  TestHarness.assertEqual(mock.requests.length, 1);
+  TestHarness.assertEqual(results.map(result => result.json['title']), ['Shared', 'Shared', 'Shared']);
+});
+
+harness.add('each caller should receive its own copy of the JSON', async () => {
+  const mock = delayed();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, dedupe: true });
+
+  const [a, b] = await Promise.all([
+    client.findById({ slug: 'posts', id: '1' }),
+    client.findById({ slug: 'posts', id: '1' }),
+  ]);
+
+  a.json['title'] = 'Mutated';
+
+  TestHarness.assertEqual(b.json['title'], 'Shared');
+});
+
+harness.add('requests with different credentials should not be shared', async () => {
+  const mock = delayed();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, dedupe: true });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'alice' }) });
+  const first = client.findById({ slug: 'posts', id: '1' });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'bob' }) });
+  const second = client.findById({ slug: 'posts', id: '1' });
+
+  await Promise.all([first, second]);
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+});
+
+harness.add('one caller aborting should not cancel the shared request', async () => {
+  const mock = delayed();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, dedupe: true });
+  const controller = new AbortController();
+
+  const aborted = client.findById({ slug: 'posts', id: '1', signal: controller.signal }).catch(error => error);
+  const kept = client.findById({ slug: 'posts', id: '1' });
+
+  controller.abort();
+
+  TestHarness.assertTrue(await aborted instanceof PayloadAbortError);
+  TestHarness.assertEqual((await kept).json['title'], 'Shared');
+  TestHarness.assertFalse(mock.last.init?.signal?.aborted);
+});
+
+harness.add('the shared request should abort once every caller has', async () => {
+  const mock = delayed(1_000);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, dedupe: true });
+  const first = new AbortController();
+  const second = new AbortController();
+
+  const a = client.findById({ slug: 'posts', id: '1', signal: first.signal }).catch(error => error);
+  const b = client.findById({ slug: 'posts', id: '1', signal: second.signal }).catch(error => error);
+
+  // The credential is resolved asynchronously, so the shared request reaches fetch a few ticks later.
+  await until(() => mock.requests.length === 1);
+  first.abort();
+  TestHarness.assertFalse(mock.last.init?.signal?.aborted);
+
+  second.abort();
+  await Promise.all([a, b]);
+
+  TestHarness.assertTrue(mock.last.init?.signal?.aborted);
+});
+
+harness.add('sequential reads should not be shared', async () => {
+  const mock = delayed(1);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, dedupe: true });
+
+  await client.findById({ slug: 'posts', id: '1' });
+  await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+});
+
+export async function testRequestDeduplicator() {
+  await harness.run('Running RequestDeduplicator tests...\n');
+}
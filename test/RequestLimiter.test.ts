@@ -0,0 +1,97 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { RequestLimiter } from '../public/config/RequestLimiter.ts';
+import { PayloadAbortError } from '../public/errors/PayloadAbortError.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+harness.add('maxConcurrent should cap requests in flight', async () => {
+  let inFlight = 0;
+  let peak = 0;
+
+  const mock = new MockFetch(async () => {
+    inFlight++;
+    peak = Math.max(peak, inFlight);
+    await sleep(5);
+    inFlight--;
+
+    return MockFetch.json({ doc: { id: '1' } });
+  });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, limiter: new RequestLimiter({ maxConcurrent: 2 }) });
+
+  await Promise.all(Array.from({ length: 6 }, (_, i) => client.create({ slug: 'posts', data: { i } })));
+
+  TestHarness.assertEqual(mock.requests.length, 6);
+  TestHarness.assertEqual(peak, 2);
+});
+
+harness.add('pending and active should report queue depth', async () => {
+  const limiter = new RequestLimiter({ maxConcurrent: 1 });
+
+  const release = await limiter.acquire();
+  const queued = limiter.acquire();
+
+  TestHarness.assertEqual(limiter.active, 1);
+  TestHarness.assertEqual(limiter.pending, 1);
+
+  release();
+  (await queued)();
+
+  TestHarness.assertEqual(limiter.active, 0);
+  TestHarness.assertEqual(limiter.pending, 0);
+});
+
+harness.add('aborting a queued request should remove it from the queue', async () => {
+  const limiter = new RequestLimiter({ maxConcurrent: 1 });
+  const controller = new AbortController();
+
+  const release = await limiter.acquire();
+  const queued = limiter.acquire({ signal: controller.signal }).catch(error => error);
+
+  controller.abort();
+
+  TestHarness.assertEqual((await queued as Error).name, 'AbortError');
+  TestHarness.assertEqual(limiter.pending, 0);
+
+  release();
+});
+
+harness.add('queued client calls should reject with PayloadAbortError when aborted', async () => {
+  let resolveFirst: (response: Response) => void = () => undefined;
+  const mock = new MockFetch(() => new Promise<Response>(resolve => { resolveFirst = resolve; }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, limiter: new RequestLimiter({ maxConcurrent: 1 }) });
+  const controller = new AbortController();
+
+  const first = client.findById({ slug: 'posts', id: '1' });
+  const second = client.findById({ slug: 'posts', id: '2', signal: controller.signal }).catch(error => error);
+
+  await sleep(1);
+  controller.abort();
+
+  TestHarness.assertTrue(await second instanceof PayloadAbortError);
+
+  resolveFirst(MockFetch.json({ id: '1' }));
+  await first;
+
+  TestHarness.assertEqual(mock.requests.length, 1);
+});
+
+harness.add('rate limit should space out requests beyond the burst', async () => {
+  const limiter = new RequestLimiter({ requestsPerInterval: 2, intervalMs: 40 });
+  const started = Date.now();
+
+  for (let i = 0; i < 3; i++) {
+    (await limiter.acquire())();
+  }
+
+  TestHarness.assertTrue(Date.now() - started >= 15);
+});
+
+export async function testRequestLimiter() {
+  await harness.run('Running RequestLimiter tests...\n');
+}
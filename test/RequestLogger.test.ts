@@ -0,0 +1,159 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { RequestLogger } from '../public/logging/RequestLogger.ts';
+import { LogLevel } from '../public/enums/LogLevel.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { Operator } from '../public/enums/Operator.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { ResponseType } from '../public/enums/ResponseType.ts';
+import { ConsoleLogger } from '../public/logging/ConsoleLogger.ts';
+import type { ILogger } from '../public/contracts/ILogger.ts';
+import type { LogEvent } from '../public/logging/LogEvent.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+class MemoryLogger implements ILogger {
+  public readonly entries: { level: LogLevel; event: LogEvent }[] = [];
+
+  log(options: { level: LogLevel; event: LogEvent }): void {
+    this.entries.push(options);
+  }
+}
+
+harness.add('start and end events should describe the final request', async () => {
+  const sink = new MemoryLogger();
+  const mock = new MockFetch(() => MockFetch.json({ docs: [] }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, logger: new RequestLogger({ logger: sink }) });
+
+  await client.find({ slug: 'posts', query: new QueryBuilder().where({ field: 'title', operator: Operator.Equals, value: 'x' }) });
+
+  const [start, end] = sink.entries;
+
+  TestHarness.assertEqual(sink.entries.length, 2);
+  TestHarness.assertEqual(start.level, LogLevel.Debug);
+  TestHarness.assertEqual(start.event.type, 'request:start');
+  TestHarness.assertEqual(start.event.url, `${BASE_URL}/api/posts?where[title][equals]=x`);
+  TestHarness.assertEqual(end.level, LogLevel.Info);
+  TestHarness.assertEqual(end.event.type === 'request:end' && end.event.status, 200);
+  TestHarness.assertEqual(end.event.type === 'request:end' && end.event.bodySize, JSON.stringify({ docs: [] }).length);
+  TestHarness.assertEqual(start.event.requestId, end.event.requestId);
+});
+
+harness.add('Authorization header should be redacted by default', async () => {
+  const sink = new MemoryLogger();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: new MockFetch().fetch, logger: new RequestLogger({ logger: sink }) });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'secret' }) });
+  await client.findGlobal({ slug: 'settings' });
+
+  const start = sink.entries[0].event;
+
+  TestHarness.assertEqual(start.type === 'request:start' && start.headers['Authorization'], '[REDACTED]');
+});
+
+harness.add('payload-token cookie should be redacted by default', async () => {
+  const sink = new MemoryLogger();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: new MockFetch().fetch, logger: new RequestLogger({ logger: sink }) });
+
+  client.setHeaders({ headers: { Cookie: 'theme=dark; payload-token=secret' } });
+  await client.findGlobal({ slug: 'settings' });
+
+  const start = sink.entries[0].event;
+
+  TestHarness.assertEqual(start.type === 'request:start' && start.headers['Cookie'], 'theme=dark; payload-token=[REDACTED]');
+});
+
+harness.add('bodies should be logged only when enabled and truncated', async () => {
+  const sink = new MemoryLogger();
+  const mock = new MockFetch(() => MockFetch.json({ doc: { id: '1' } }));
+  const logger = new RequestLogger({ logger: sink, logBodies: true, maxBodyLength: 10 });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, logger });
+
+  await client.create({ slug: 'posts', data: { title: 'A long title' } });
+
+  const start = sink.entries[0].event;
+
+  TestHarness.assertEqual(start.type === 'request:start' && start.body, '{"title":"… (14 more characters)');
+
+  const quiet = new MemoryLogger();
+  const quietClient = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, logger: new RequestLogger({ logger: quiet }) });
+
+  await quietClient.create({ slug: 'posts', data: { title: 'A long title' } });
+
+  TestHarness.assertFalse('body' in quiet.entries[0].event);
+});
+
+harness.add('non-2xx responses should be logged at warn', async () => {
+  const sink = new MemoryLogger();
+  const mock = new MockFetch(() => MockFetch.json({ errors: [] }, 404));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, logger: new RequestLogger({ logger: sink }) });
+
+  await client.findById({ slug: 'posts', id: 'missing' }).catch(() => undefined);
+
+  TestHarness.assertEqual(sink.entries[1].level, LogLevel.Warn);
+});
+
+harness.add('network failures should emit request:error', async () => {
+  const sink = new MemoryLogger();
+  const mock = new MockFetch(() => { throw new TypeError('fetch failed'); });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, logger: new RequestLogger({ logger: sink }) });
+
+  await client.findById({ slug: 'posts', id: '1' }).catch(() => undefined);
+
+  TestHarness.assertEqual(sink.entries[1].level, LogLevel.Error);
+  TestHarness.assertEqual(sink.entries[1].event.type, 'request:error');
+});
+
+harness.add('events below the minimum level should be skipped', async () => {
+  const sink = new MemoryLogger();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: new MockFetch().fetch, logger: new RequestLogger({ logger: sink, level: LogLevel.Info }) });
+
+  await client.findGlobal({ slug: 'settings' });
+
+  TestHarness.assertEqual(sink.entries.map(entry => entry.event.type), ['request:end']);
+});
+
+harness.add('unread responses should report Content-Length or no size', async () => {
+  const sink = new MemoryLogger();
+  const mock = new MockFetch(({ url }) => new Response('streamed', { headers: url.endsWith('/sized') ? { 'Content-Length': '8' } : {} }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, logger: new RequestLogger({ logger: sink }) });
+
+  await client.request({ method: HttpMethod.GET, path: '/api/sized', responseType: ResponseType.Stream });
+  await client.request({ method: HttpMethod.GET, path: '/api/unsized', responseType: ResponseType.Stream });
+
+  const sizes = sink.entries
+    .map(entry => entry.event)
+    .filter(event => event.type === 'request:end')
+    .map(event => event.bodySize);
+
+  TestHarness.assertEqual(sizes, [8, undefined]);
+});
+
+harness.add('ConsoleLogger should omit an unknown body size', async () => {
+  const lines: string[] = [];
+  const info = console.info;
+  const event = { type: 'request:end', requestId: 1, method: HttpMethod.GET, url: `${BASE_URL}/api/feed`, status: 200, durationMs: 5 } as const;
+
+  console.info = (line: string) => { lines.push(line); };
+
+  try {
+    new ConsoleLogger().log({ level: LogLevel.Info, event: { ...event, bodySize: undefined } });
+    new ConsoleLogger().log({ level: LogLevel.Info, event: { ...event, bodySize: 8 } });
+  }
+  finally {
+    console.info = info;
+  }
+
+  TestHarness.assertEqual(lines, [
+    `[PayloadSDK] #1 GET ${BASE_URL}/api/feed ← 200 (5ms)`,
+    `[PayloadSDK] #1 GET ${BASE_URL}/api/feed ← 200 (5ms, 8 bytes)`,
+  ]);
+});
+
+export async function testRequestLogger() {
+  await harness.run('Running RequestLogger tests...\n');
+}
@@ -0,0 +1,110 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { ApiKeyAuth } from '../public/config/ApiKeyAuth.ts';
+import { RefreshingJwtAuth } from '../public/config/RefreshingJwtAuth.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import type { FetchInit } from '../public/config/RequestOptions.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+function headers(request: RecordedRequest): Record<string, string> {
+  return request.init?.headers as Record<string, string>;
+}
+
+function client(mock: MockFetch): PayloadSDK {
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  client.setHeaders({ headers: { 'X-Tenant': 'default', 'X-App': 'web' } });
+  client.setApiKeyAuth({ auth: new ApiKeyAuth({ collectionSlug: 'users', apiKey: 'key' }) });
+
+  return client;
+}
+
+harness.add('per-call headers should merge over client headers without changing them', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+
+  await Promise.all([
+    sdk.find({ slug: 'posts', headers: { 'X-Tenant': 'a' } }),
+    sdk.find({ slug: 'posts', headers: { 'X-Tenant': 'b', 'Accept-Language': 'sv' } }),
+  ]);
+
+  TestHarness.assertEqual(headers(mock.requests[0])['X-Tenant'], 'a');
+  TestHarness.assertEqual(headers(mock.requests[1])['X-Tenant'], 'b');
+  TestHarness.assertEqual(headers(mock.requests[1])['X-App'], 'web');
+  TestHarness.assertEqual(headers(mock.requests[1])['Accept-Language'], 'sv');
+
+  await sdk.find({ slug: 'posts' });
+
+  TestHarness.assertEqual(headers(mock.last)['X-Tenant'], 'default');
+  TestHarness.assertFalse('Accept-Language' in headers(mock.last));
+});
+
+harness.add('a per-call credential should override the client credential', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+
+  await sdk.findById({ slug: 'posts', id: '1', auth: new JwtAuth({ token: 'user-token' }) });
+  TestHarness.assertEqual(headers(mock.last)['Authorization'], 'Bearer user-token');
+
+  await sdk.findById({ slug: 'posts', id: '1' });
+  TestHarness.assertEqual(headers(mock.last)['Authorization'], 'users API-Key key');
+});
+
+harness.add('auth: null should send the request without credentials', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+
+  await sdk.findGlobal({ slug: 'settings', auth: null });
+
+  TestHarness.assertFalse('Authorization' in headers(mock.last));
+});
+
+harness.add('fetch init should pass through without overriding client-controlled options', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+  const init = { cache: 'no-store', keepalive: true, next: { tags: ['posts'] }, method: 'DELETE' } as FetchInit;
+
+  await sdk.create({ slug: 'posts', data: { title: 'A' }, init });
+
+  const sent = mock.last.init as RequestInit & { next?: { tags: string[] } };
+
+  TestHarness.assertEqual(sent.cache, 'no-store');
+  TestHarness.assertEqual(sent.keepalive, true);
+  TestHarness.assertEqual(sent.next, { tags: ['posts'] });
+  TestHarness.assertEqual(sent.method, 'POST');
+  TestHarness.assertEqual(sent.body, '{"title":"A"}');
+});
+
+harness.add('request() should accept per-call options', async () => {
+  const mock = new MockFetch();
+  const sdk = client(mock);
+
+  await sdk.request({ method: HttpMethod.GET, path: '/api/health', headers: { 'X-Probe': '1' }, auth: null, init: { cache: 'no-cache' } });
+
+  TestHarness.assertEqual(headers(mock.last)['X-Probe'], '1');
+  TestHarness.assertFalse('Authorization' in headers(mock.last));
+  TestHarness.assertEqual(mock.last.init?.cache, 'no-cache');
+});
+
+harness.add('a refreshing credential passed per call should refresh with itself', async () => {
+  const mock = new MockFetch(({ url }) => url.endsWith('/refresh-token')
+    ? MockFetch.json({ refreshedToken: 'fresh' })
+    : MockFetch.json({}));
+
+  const sdk = client(mock);
+  const auth = new RefreshingJwtAuth({ client: sdk, slug: 'customers', token: 'stale', exp: Math.floor(Date.now() / 1000) });
+
+  await sdk.me({ slug: 'customers', auth });
+
+  TestHarness.assertEqual(headers(mock.requests[0])['Authorization'], 'Bearer stale');
+  TestHarness.assertEqual(headers(mock.requests[1])['Authorization'], 'Bearer fresh');
+});
+
+export async function testRequestOptions() {
+  await harness.run('Running RequestOptions tests...\n');
+}
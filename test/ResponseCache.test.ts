@@ -0,0 +1,195 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { ResponseCache } from '../public/cache/ResponseCache.ts';
+import { MemoryCacheStorage } from '../public/cache/MemoryCacheStorage.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const counting = (): MockFetch => {
+  let calls = 0;
+
+  return new MockFetch(({ init }) => {
+    if (init?.method !== 'GET') {
+      return MockFetch.json({ doc: { id: '1' }, result: { id: 'g' } });
+    }
+
+    calls++;
+
+    return MockFetch.json({ id: '1', version: calls });
+  });
+};
+
+harness.add('repeated reads should be served from the cache', async () => {
+  const mock = counting();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+
+  await client.findById({ slug: 'posts', id: '1' });
+  const second = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 1);
+  TestHarness.assertEqual(second.json['version'], 1);
+});
+
+harness.add('different queries should be cached separately', async () => {
+  const mock = counting();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+
+  await client.find({ slug: 'posts', query: new QueryBuilder().page({ value: 1 }) });
+  await client.find({ slug: 'posts', query: new QueryBuilder().page({ value: 2 }) });
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+});
+
+harness.add('different credentials should be cached separately', async () => {
+  const mock = counting();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'alice' }) });
+  await client.findById({ slug: 'posts', id: '1' });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'bob' }) });
+  await client.findById({ slug: 'posts', id: '1' });
+
+  client.setJwtAuth({ auth: new JwtAuth({ token: 'alice' }) });
+  await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+});
+
+harness.add('clients that differ only by a custom header should be cached separately', async () => {
+  const mock = counting();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+
+  const tenantA = await client.withHeaders({ headers: { 'X-Tenant': 'A' } }).findById({ slug: 'posts', id: '1' });
+  const tenantB = await client.withHeaders({ headers: { 'X-Tenant': 'B' } }).findById({ slug: 'posts', id: '1' });
+  const again = await client.withHeaders({ headers: { 'x-tenant': 'A' } }).findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+  TestHarness.assertEqual(tenantA.json['version'], 1);
+  TestHarness.assertEqual(tenantB.json['version'], 2);
+  TestHarness.assertEqual(again.json['version'], 1);
+});
+
+harness.add('expired entries should be fetched again', async () => {
+  const mock = counting();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache({ ttlMs: 5 }) });
+
+  await client.findById({ slug: 'posts', id: '1' });
+  await sleep(15);
+  const second = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+  TestHarness.assertEqual(second.json['version'], 2);
+});
+
+harness.add('stale entries should be served while revalidating', async () => {
+  const mock = counting();
+  const storage = new MemoryCacheStorage();
+  const set = storage.set.bind(storage);
+  const now = Date.now;
+  let clock = now();
+  let stored = 0;
+  let revalidated = () => {};
+  const revalidation = new Promise<void>(resolve => revalidated = resolve);
+
+  // Resolves once the background refresh has stored the second version.
+  storage.set = async (options) => {
+    await set(options);
+
+    if (++stored === 2) {
+      revalidated();
+    }
+  };
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache({ ttlMs: 5, staleWhileRevalidateMs: 60_000, storage }) });
+
+  // A stubbed clock keeps the entry's expiry independent of how long the background refresh takes.
+  Date.now = () => clock;
+
+  try {
+    await client.findById({ slug: 'posts', id: '1' });
+    clock += 15;
+    const stale = await client.findById({ slug: 'posts', id: '1' });
+    await revalidation;
+    const fresh = await client.findById({ slug: 'posts', id: '1' });
+
+    TestHarness.assertEqual(stale.json['version'], 1);
+    TestHarness.assertEqual(fresh.json['version'], 2);
+    TestHarness.assertEqual(mock.requests.length, 2);
+  }
+  finally {
+    Date.now = now;
+  }
+});
+
+harness.add('revalidation should send If-None-Match and reuse the entry on 304', async () => {
+  let calls = 0;
+  const mock = new MockFetch(() => {
+    if (calls++ === 0) {
+      return MockFetch.json({ id: '1', title: 'Cached' }, 200, { ETag: '"v1"' });
+    }
+
+    return new Response(null, { status: 304 });
+  });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache({ ttlMs: 5 }) });
+
+  await client.findById({ slug: 'posts', id: '1' });
+  await sleep(15);
+  const second = await client.findById({ slug: 'posts', id: '1' });
+
+  const headers = mock.last.init?.headers as Record<string, string>;
+
+  TestHarness.assertEqual(headers['If-None-Match'], '"v1"');
+  TestHarness.assertEqual(second.json['title'], 'Cached');
+});
+
+harness.add('mutations should invalidate entries for the affected slug', async () => {
+  const mock = counting();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+
+  await client.findById({ slug: 'posts', id: '1' });
+  await client.findById({ slug: 'pages', id: '1' });
+  await client.updateById({ slug: 'posts', id: '1', data: { title: 'New' } });
+  await client.findById({ slug: 'posts', id: '1' });
+  await client.findById({ slug: 'pages', id: '1' });
+
+  const reads = mock.requests.filter(request => request.init?.method === 'GET');
+
+  TestHarness.assertEqual(reads.length, 3);
+});
+
+harness.add('updateGlobal should invalidate findGlobal', async () => {
+  const mock = counting();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+
+  await client.findGlobal({ slug: 'settings' });
+  await client.updateGlobal({ slug: 'settings', data: { title: 'New' } });
+  await client.findGlobal({ slug: 'settings' });
+
+  const reads = mock.requests.filter(request => request.init?.method === 'GET');
+
+  TestHarness.assertEqual(reads.length, 2);
+});
+
+harness.add('MemoryCacheStorage should evict the least recently used entry', async () => {
+  const storage = new MemoryCacheStorage({ maxEntries: 2 });
+  const entry = { json: {}, status: 200, headers: {}, etag: undefined, lastModified: undefined, storedAt: 0, tag: 'posts' };
+
+  await storage.set({ key: 'a', entry });
+  await storage.set({ key: 'b', entry });
+  await storage.get({ key: 'a' });
+  await storage.set({ key: 'c', entry });
+
+  TestHarness.assertEqual((await storage.keys()).sort(), ['a', 'c']);
+});
+
+export async function testResponseCache() {
+  await harness.run('Running ResponseCache tests...\n');
+}
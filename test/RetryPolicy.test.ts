@@ -0,0 +1,170 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { PayloadError } from '../public/PayloadError.ts';
+import { RetryPolicy } from '../public/config/RetryPolicy.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const failThen = (failures: Response[], success: Response): MockFetch => {
+  let calls = 0;
+
+  return new MockFetch(() => calls < failures.length ? failures[calls++] : success);
+};
+
+// ── policy decisions ─────────────────────────────────────────────
+
+harness.add('shouldRetry returns true for retryable status on GET', () => {
+  const policy = new RetryPolicy();
+  const error = new PayloadError({ statusCode: 503 });
+
+  TestHarness.assertTrue(policy.shouldRetry({ error, method: HttpMethod.GET, idempotent: true, attempt: 1 }));
+});
+
+harness.add('shouldRetry returns false for non-retryable status', () => {
+  const policy = new RetryPolicy();
+  const error = new PayloadError({ statusCode: 400 });
+
+  TestHarness.assertFalse(policy.shouldRetry({ error, method: HttpMethod.GET, idempotent: true, attempt: 1 }));
+});
+
+harness.add('shouldRetry returns false once maxAttempts is reached', () => {
+  const policy = new RetryPolicy({ maxAttempts: 2 });
+  const error = new TypeError('fetch failed');
+
+  TestHarness.assertFalse(policy.shouldRetry({ error, method: HttpMethod.GET, idempotent: true, attempt: 2 }));
+});
+
+harness.add('shouldRetry skips non-idempotent methods unless opted in', () => {
+  const error = new PayloadError({ statusCode: 502 });
+
+  TestHarness.assertFalse(new RetryPolicy().shouldRetry({ error, method: HttpMethod.POST, idempotent: false, attempt: 1 }));
+  TestHarness.assertTrue(new RetryPolicy({ methods: [HttpMethod.POST] }).shouldRetry({ error, method: HttpMethod.POST, idempotent: false, attempt: 1 }));
+});
+
+harness.add('delay doubles without jitter and is capped by maxDelayMs', () => {
+  const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: false });
+  const error = new TypeError('fetch failed');
+
+  TestHarness.assertEqual(policy.delay({ error, attempt: 1 }), 100);
+  TestHarness.assertEqual(policy.delay({ error, attempt: 2 }), 200);
+  TestHarness.assertEqual(policy.delay({ error, attempt: 3 }), 300);
+});
+
+harness.add('delay honors Retry-After seconds', () => {
+  const policy = new RetryPolicy({ baseDelayMs: 100, jitter: false });
+  const response = new Response(null, { status: 429, headers: { 'Retry-After': '2' } });
+  const error = new PayloadError({ statusCode: 429, response });
+
+  TestHarness.assertEqual(policy.delay({ error, attempt: 1 }), 2000);
+});
+
+// ── client integration ───────────────────────────────────────────
+
+harness.add('GET is retried until it succeeds', async () => {
+  const mock = failThen([MockFetch.json({}, 503), MockFetch.json({}, 502)], MockFetch.json({ id: '1' }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ baseDelayMs: 1 }) });
+
+  const result = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 3);
+  TestHarness.assertEqual(result.id, '1');
+});
+
+harness.add('final PayloadError reports the attempt count', async () => {
+  const mock = new MockFetch(() => MockFetch.json({}, 504));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1 }) });
+  let caught: unknown = undefined;
+
+  try {
+    await client.find({ slug: 'posts' });
+  }
+  catch (error) {
+    caught = error;
+  }
+
+  TestHarness.assertTrue(caught instanceof PayloadError);
+  TestHarness.assertEqual((caught as PayloadError).attempts, 3);
+  TestHarness.assertEqual((caught as PayloadError).message, '[PayloadError] Request failed with status: 504 after 3 attempts');
+  TestHarness.assertEqual(mock.requests.length, 3);
+});
+
+harness.add('POST is not retried by default', async () => {
+  const mock = failThen([MockFetch.json({}, 503)], MockFetch.json({ doc: { id: '1' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ baseDelayMs: 1 }) });
+  let caught: unknown = undefined;
+
+  try {
+    await client.create({ slug: 'posts', data: { title: 'x' } });
+  }
+  catch (error) {
+    caught = error;
+  }
+
+  TestHarness.assertTrue(caught instanceof PayloadError);
+  TestHarness.assertEqual(mock.requests.length, 1);
+});
+
+harness.add('deleteById is retried but bulk delete is not', async () => {
+  const byId = failThen([MockFetch.json({}, 503)], MockFetch.json({ doc: { id: '1' } }));
+  const byIdClient = new PayloadSDK({ baseUrl: BASE_URL, fetch: byId.fetch, retry: new RetryPolicy({ baseDelayMs: 1 }) });
+
+  await byIdClient.deleteById({ slug: 'posts', id: '1' });
+
+  const bulk = failThen([MockFetch.json({}, 503)], MockFetch.json({ docs: [] }));
+  const bulkClient = new PayloadSDK({ baseUrl: BASE_URL, fetch: bulk.fetch, retry: new RetryPolicy({ baseDelayMs: 1 }) });
+
+  try {
+    await bulkClient.delete({ slug: 'posts', query: new QueryBuilder() });
+  }
+  catch {
+    // Expected: bulk delete is not retried by default
+  }
+
+  TestHarness.assertEqual(byId.requests.length, 2);
+  TestHarness.assertEqual(bulk.requests.length, 1);
+});
+
+harness.add('network failures are retried', async () => {
+  let calls = 0;
+  const mock = new MockFetch(() => {
+    if (calls++ === 0) {
+      throw new TypeError('fetch failed');
+    }
+
+    return MockFetch.json({ id: '1' });
+  });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ baseDelayMs: 1 }) });
+
+  const result = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(mock.requests.length, 2);
+  TestHarness.assertEqual(result.id, '1');
+});
+
+harness.add('aborting during backoff stops retrying', async () => {
+  const controller = new AbortController();
+  const mock = new MockFetch(() => MockFetch.json({}, 503));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ baseDelayMs: 1_000, jitter: false }) });
+  let caught: unknown = undefined;
+
+  setTimeout(() => controller.abort(), 10);
+
+  try {
+    await client.find({ slug: 'posts', signal: controller.signal });
+  }
+  catch (error) {
+    caught = error;
+  }
+
+  TestHarness.assertEqual(mock.requests.length, 1);
+  TestHarness.assertEqual((caught as Error).message, '[PayloadError] Request was aborted');
+});
+
+export async function testRetryPolicy() {
+  await harness.run('Running RetryPolicy tests...\n');
+}
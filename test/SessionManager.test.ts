@@ -0,0 +1,174 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { SessionManager } from '../public/session/SessionManager.ts';
+import type { SessionState } from '../public/session/SessionState.ts';
+import { ApiKeyAuth } from '../public/config/ApiKeyAuth.ts';
+import { JwtAuth } from '../public/config/JwtAuth.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+const USER = { id: 'u1', email: 'user@example.com' };
+
+function authorization(request: RecordedRequest): string | undefined {
+  return (request.init?.headers as Record<string, string>)['Authorization'];
+}
+
+// Answers the auth endpoints like a Payload CMS server.
+function server(): MockFetch {
+  return new MockFetch(({ url }) => {
+    if (url.endsWith('/login')) {
+      return MockFetch.json({ token: 'login-token', exp: 100, user: USER });
+    }
+
+    if (url.endsWith('/refresh-token')) {
+      return MockFetch.json({ refreshedToken: 'refreshed-token', exp: 200, user: USER });
+    }
+
+    if (url.endsWith('/me')) {
+      return MockFetch.json({ user: { ...USER, name: 'Updated' }, collection: 'users' });
+    }
+
+    return MockFetch.json({ message: 'ok' });
+  });
+}
+
+harness.add('login should start a session and apply its token', async () => {
+  const mock = server();
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await client.login({ slug: 'users', data: { email: USER.email, password: 'pw' } });
+  await client.find({ slug: 'posts' });
+
+  TestHarness.assertEqual(session.state?.slug, 'users');
+  TestHarness.assertEqual(session.state?.token, 'login-token');
+  TestHarness.assertEqual(session.state?.exp, 100);
+  TestHarness.assertEqual(session.state?.user.id, 'u1');
+  TestHarness.assertEqual(authorization(mock.last), 'Bearer login-token');
+});
+
+harness.add('refreshToken and me should update the session', async () => {
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: server().fetch, session });
+
+  await client.login({ slug: 'users', data: {} });
+  await client.refreshToken({ slug: 'users' });
+
+  TestHarness.assertEqual(session.state?.token, 'refreshed-token');
+  TestHarness.assertEqual(session.state?.exp, 200);
+
+  await client.me({ slug: 'users' });
+
+  TestHarness.assertEqual(session.state?.token, 'refreshed-token');
+  TestHarness.assertEqual(session.state?.user.json['name'], 'Updated');
+});
+
+harness.add('me without a user should clear the session', async () => {
+  const mock = new MockFetch(({ url }) => url.endsWith('/login')
+    ? MockFetch.json({ token: 'login-token', exp: 100, user: USER })
+    : MockFetch.json({ user: null }));
+
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await client.login({ slug: 'users', data: {} });
+  await client.me({ slug: 'users' });
+
+  TestHarness.assertEqual(session.state, undefined);
+});
+
+harness.add('logout should clear the session and stop sending its token', async () => {
+  const mock = server();
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await client.login({ slug: 'users', data: {} });
+  await client.logout({ slug: 'users' });
+  await client.find({ slug: 'posts' });
+
+  TestHarness.assertEqual(session.state, undefined);
+  TestHarness.assertEqual(authorization(mock.last), undefined);
+});
+
+harness.add('an explicit credential should take precedence over the session', async () => {
+  const mock = server();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session: new SessionManager() });
+
+  await client.login({ slug: 'users', data: {} });
+  client.setApiKeyAuth({ auth: new ApiKeyAuth({ collectionSlug: 'users', apiKey: 'key' }) });
+  await client.find({ slug: 'posts' });
+
+  TestHarness.assertEqual(authorization(mock.last), 'users API-Key key');
+});
+
+harness.add('login and me as an identity should leave the session untouched', async () => {
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: server().fetch, session });
+
+  await client.login({ slug: 'users', data: {} });
+  client.setIdentity({ slug: 'customers', auth: new JwtAuth({ token: 'customer-token' }) });
+
+  const customer = client.as({ slug: 'customers' });
+
+  await customer.login({ slug: 'customers', data: {} });
+  await customer.me({ slug: 'customers' });
+
+  TestHarness.assertEqual(session.state?.slug, 'users');
+  TestHarness.assertEqual(session.state?.token, 'login-token');
+  TestHarness.assertEqual(session.state?.user.json['name'], undefined);
+});
+
+harness.add('me without a user as an identity should not clear the session', async () => {
+  const mock = new MockFetch(({ url }) => url.endsWith('/login')
+    ? MockFetch.json({ token: 'login-token', exp: 100, user: USER })
+    : MockFetch.json({ user: null }));
+
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await client.login({ slug: 'users', data: {} });
+  client.setIdentity({ slug: 'users', auth: new JwtAuth({ token: 'other-token' }) });
+  await client.me({ slug: 'users', identity: 'users' });
+
+  TestHarness.assertEqual(session.state?.token, 'login-token');
+});
+
+harness.add('auth calls with a per-call credential should leave the session untouched', async () => {
+  const mock = new MockFetch(({ url }) => url.endsWith('/reset-password')
+    ? MockFetch.json({ token: 'reset-token', user: USER })
+    : MockFetch.json({ token: 'login-token', exp: 100, user: USER }));
+
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await client.login({ slug: 'users', data: {} });
+  await client.login({ slug: 'admins', data: {}, auth: null });
+  await client.resetPassword({ slug: 'users', data: {}, auth: null });
+
+  TestHarness.assertEqual(session.state?.slug, 'users');
+  TestHarness.assertEqual(session.state?.token, 'login-token');
+});
+
+harness.add('listeners should be notified of every change until unsubscribed', async () => {
+  const session = new SessionManager();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: server().fetch, session });
+  const changes: (SessionState | undefined)[] = [];
+
+  const unsubscribe = session.subscribe({ listener: state => changes.push(state) });
+
+  await client.login({ slug: 'users', data: {} });
+  await client.logout({ slug: 'users' });
+  unsubscribe();
+  await client.login({ slug: 'users', data: {} });
+
+  TestHarness.assertEqual(changes.length, 2);
+  TestHarness.assertEqual(changes[0]?.token, 'login-token');
+  TestHarness.assertEqual(changes[1], undefined);
+});
+
+export async function testSessionManager() {
+  await harness.run('Running SessionManager tests...\n');
+}
@@ -0,0 +1,178 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { chmod, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { SessionManager } from '../public/session/SessionManager.ts';
+import type { SessionState } from '../public/session/SessionState.ts';
+import { MemorySessionStorage } from '../public/session/MemorySessionStorage.ts';
+import { WebSessionStorage } from '../public/session/WebSessionStorage.ts';
+import { FileSessionStorage } from '../public/session/FileSessionStorage.ts';
+import { DocumentDTO } from '../public/models/collection/DocumentDTO.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+function state(exp: number = Math.floor(Date.now() / 1000) + 3600): SessionState {
+  return { slug: 'users', token: 'stored-token', exp, user: DocumentDTO.fromJson({ id: 'u1', email: 'user@example.com' }) };
+}
+
+// Minimal stand-in for `localStorage`.
+class FakeWebStorage {
+  public readonly items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+harness.add('the client should restore a stored session before the first request', async () => {
+  const storage = new MemorySessionStorage();
+  const mock = new MockFetch();
+
+  await storage.save({ state: state() });
+
+  const session = new SessionManager({ storage });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session });
+
+  await client.find({ slug: 'posts' });
+
+  TestHarness.assertEqual((mock.last.init?.headers as Record<string, string>)['Authorization'], 'Bearer stored-token');
+  TestHarness.assertEqual(session.state?.user.id, 'u1');
+});
+
+harness.add('an expired stored session should be discarded', async () => {
+  const storage = new MemorySessionStorage();
+  const mock = new MockFetch();
+
+  await storage.save({ state: state(Math.floor(Date.now() / 1000) - 10) });
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, session: new SessionManager({ storage }) });
+
+  await client.find({ slug: 'posts' });
+
+  TestHarness.assertFalse('Authorization' in (mock.last.init?.headers as Record<string, string>));
+  TestHarness.assertEqual(await storage.load(), undefined);
+});
+
+harness.add('login and logout should save and clear the stored session', async () => {
+  const storage = new FakeWebStorage();
+  const mock = new MockFetch(({ url }) => url.endsWith('/login')
+    ? MockFetch.json({ token: 'login-token', exp: 100, user: { id: 'u1' } })
+    : MockFetch.json({ message: 'ok' }));
+
+  const client = new PayloadSDK({
+    baseUrl: BASE_URL,
+    fetch: mock.fetch,
+    session: new SessionManager({ storage: new WebSessionStorage({ storage }) }),
+  });
+
+  await client.login({ slug: 'users', data: {} });
+
+  TestHarness.assertEqual(JSON.parse(storage.getItem('payload-session')!), { slug: 'users', token: 'login-token', exp: 100, user: { id: 'u1' } });
+
+  await client.logout({ slug: 'users' });
+
+  TestHarness.assertEqual(storage.getItem('payload-session'), null);
+});
+
+harness.add('a session set while restoring should win over the stored one', async () => {
+  const storage = new MemorySessionStorage();
+
+  await storage.save({ state: state() });
+
+  const session = new SessionManager({ storage });
+  const restoring = session.restore();
+
+  await session.set({ state: { ...state(), token: 'new-token' } });
+  await restoring;
+
+  TestHarness.assertEqual(session.state?.token, 'new-token');
+});
+
+harness.add('FileSessionStorage should round-trip a session', async () => {
+  const path = join(tmpdir(), `payload-session-${process.pid}.json`);
+  const storage = new FileSessionStorage({ path });
+
+  try {
+    TestHarness.assertEqual(await storage.load(), undefined);
+
+    await storage.save({ state: state(123) });
+    const loaded = await storage.load();
+
+    TestHarness.assertEqual(loaded?.token, 'stored-token');
+    TestHarness.assertEqual(loaded?.exp, 123);
+    TestHarness.assertEqual(loaded?.user.json['email'], 'user@example.com');
+
+    await storage.clear();
+
+    TestHarness.assertEqual(await storage.load(), undefined);
+  }
+  finally {
+    await rm(path, { force: true });
+  }
+});
+
+harness.add('FileSessionStorage should encrypt the file when given a key', async () => {
+  const path = join(tmpdir(), `payload-session-encrypted-${process.pid}.json`);
+
+  try {
+    await new FileSessionStorage({ path, encryptionKey: 'secret' }).save({ state: state() });
+
+    const contents = await readFile(path, 'utf8');
+
+    TestHarness.assertFalse(contents.includes('stored-token'));
+    TestHarness.assertEqual(Buffer.from(JSON.parse(contents).salt, 'base64').length, 16);
+    TestHarness.assertEqual((await new FileSessionStorage({ path, encryptionKey: 'secret' }).load())?.token, 'stored-token');
+    TestHarness.assertEqual(await new FileSessionStorage({ path, encryptionKey: 'wrong' }).load(), undefined);
+  }
+  finally {
+    await rm(path, { force: true });
+  }
+});
+
+harness.add('FileSessionStorage should restrict an existing file to its owner', async () => {
+  const path = join(tmpdir(), `payload-session-existing-${process.pid}.json`);
+
+  try {
+    await writeFile(path, '');
+    await chmod(path, 0o644);
+    await new FileSessionStorage({ path }).save({ state: state() });
+
+    TestHarness.assertEqual((await stat(path)).mode & 0o777, 0o600);
+  }
+  finally {
+    await rm(path, { force: true });
+  }
+});
+
+harness.add('clearAuth should clear the session at once and ignore storage failures', async () => {
+  const storage = new MemorySessionStorage();
+  const session = new SessionManager({ storage });
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: new MockFetch().fetch, session });
+
+  await session.set({ state: state() });
+  storage.clear = () => Promise.reject(new Error('storage unavailable'));
+
+  client.clearAuth();
+
+  const error = await client.session?.clear().catch(error => error);
+
+  TestHarness.assertTrue(client.session === session);
+  TestHarness.assertEqual(session.state, undefined);
+  TestHarness.assertEqual(error.message, 'storage unavailable');
+});
+
+export async function testSessionStorage() {
+  await harness.run('Running SessionStorage tests...\n');
+}
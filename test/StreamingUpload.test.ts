@@ -0,0 +1,169 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { writeFile, rm } from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { RetryPolicy } from '../public/config/RetryPolicy.ts';
+import { FileUpload } from '../public/upload/FileUpload.ts';
+import type { UploadProgress } from '../public/upload/UploadProgress.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { PayloadError } from '../public/PayloadError.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch, type RecordedRequest } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+type Received = { payload: string; name: string; type: string; text: string; duplex: unknown };
+
+/**
+ * Answers uploads by parsing the multipart body the way a server would.
+ */
+function server(received: Received[]): MockFetch {
+  return new MockFetch(async (request: RecordedRequest) => {
+    const headers = request.init?.headers as Record<string, string>;
+    const form = await new Response(request.init?.body, { headers: { 'Content-Type': headers['Content-Type'] } }).formData();
+    const file = form.get('file') as File;
+
+    received.push({
+      payload: form.get('_payload') as string,
+      name: file.name,
+      type: file.type,
+      text: await file.text(),
+      duplex: (request.init as Record<string, unknown>)['duplex'],
+    });
+
+    return MockFetch.json({ doc: { id: '1' }, docs: [] });
+  });
+}
+
+function chunks(): AsyncIterable<Uint8Array> {
+  return Readable.from([Buffer.from('hello '), Buffer.from('streamed '), Buffer.from('world')]);
+}
+
+harness.add('a Node Readable should be sent as a streaming multipart body', async () => {
+  const received: Received[] = [];
+  const mock = server(received);
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const file = FileUpload.fromReadable({ readable: chunks(), filename: 'clip.txt', mimeType: 'text/plain' });
+  const doc = await client.create({ slug: 'media', data: { alt: 'Clip' }, file });
+
+  TestHarness.assertEqual(doc.id, '1');
+  TestHarness.assertTrue(mock.last.init?.body instanceof ReadableStream);
+  TestHarness.assertEqual(received[0], { payload: '{"alt":"Clip"}', name: 'clip.txt', type: 'text/plain', text: 'hello streamed world', duplex: 'half' });
+});
+
+harness.add('a web ReadableStream should be uploaded by updateById and update', async () => {
+  const received: Received[] = [];
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: server(received).fetch });
+
+  const stream = () => FileUpload.fromStream({ stream: new Blob(['replacement']).stream(), filename: 'new.bin' });
+
+  await client.updateById({ slug: 'media', id: '1', data: {}, file: stream() });
+  await client.update({ slug: 'media', data: {}, query: new QueryBuilder(), file: stream() });
+
+  TestHarness.assertEqual(received.map(({ text, type }) => [text, type]), [['replacement', 'application/octet-stream'], ['replacement', 'application/octet-stream']]);
+});
+
+harness.add('fromPath should stream the file and default the filename', async () => {
+  const path = join(tmpdir(), `payload-upload-${process.pid}.txt`);
+  await writeFile(path, 'from disk');
+
+  try {
+    const received: Received[] = [];
+    const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: server(received).fetch });
+    const file = await FileUpload.fromPath({ path, mimeType: 'text/plain' });
+
+    TestHarness.assertEqual(file.size, 9);
+
+    await client.create({ slug: 'media', data: {}, file });
+
+    TestHarness.assertEqual(received[0].name, path.split(/[\\/]/).pop());
+    TestHarness.assertEqual(received[0].text, 'from disk');
+  }
+  finally {
+    await rm(path, { force: true });
+  }
+});
+
+harness.add('fromBuffer should upload from memory as FormData', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ doc: { id: '1' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const file = FileUpload.fromBuffer({ buffer: Buffer.from('in memory'), filename: 'note.txt', mimeType: 'text/plain' });
+
+  await client.create({ slug: 'media', data: {}, file });
+
+  TestHarness.assertEqual(file.size, 9);
+  TestHarness.assertTrue(mock.last.init?.body instanceof FormData);
+});
+
+harness.add('onProgress should report the file bytes sent', async () => {
+  const progress: UploadProgress[] = [];
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: server([]).fetch });
+
+  const file = FileUpload.fromReadable({ readable: chunks(), filename: 'clip.txt', size: 20 });
+
+  await client.create({ slug: 'media', data: {}, file, onProgress: (event) => progress.push(event) });
+
+  TestHarness.assertEqual(progress, [
+    { bytesSent: 6, totalBytes: 20 },
+    { bytesSent: 15, totalBytes: 20 },
+    { bytesSent: 20, totalBytes: 20 },
+  ]);
+});
+
+harness.add('onProgress should report in-memory files once they are sent', async () => {
+  const progress: UploadProgress[] = [];
+  const mock = new MockFetch(() => MockFetch.json({ doc: { id: '1' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const file = new FileUpload({ content: new Blob(['photo bytes'], { type: 'image/png' }), filename: 'photo.png' });
+
+  await client.create({ slug: 'media', data: {}, file, onProgress: (event) => progress.push(event) });
+
+  const form = mock.last.init?.body as FormData;
+
+  TestHarness.assertTrue(form instanceof FormData);
+  TestHarness.assertEqual((form.get('file') as File).type, 'image/png');
+  TestHarness.assertFalse('duplex' in (mock.last.init ?? {}));
+  TestHarness.assertEqual(progress, [{ bytesSent: 11, totalBytes: 11 }]);
+});
+
+harness.add('in-memory uploads with onProgress should still be retried', async () => {
+  const progress: UploadProgress[] = [];
+  let calls = 0;
+  const mock = new MockFetch(() => ++calls === 1 ? MockFetch.json({ errors: [] }, 503) : MockFetch.json({ doc: { id: '1' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ baseDelayMs: 1, methods: [HttpMethod.POST] }) });
+
+  const file = new FileUpload({ content: new Blob(['photo bytes']), filename: 'photo.png' });
+  const doc = await client.create({ slug: 'media', data: {}, file, onProgress: (event) => progress.push(event) });
+
+  TestHarness.assertEqual(doc.id, '1');
+  TestHarness.assertEqual(mock.requests.length, 2);
+  TestHarness.assertEqual(progress, [{ bytesSent: 11, totalBytes: 11 }]);
+});
+
+harness.add('streamed uploads should not be retried', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ errors: [] }, 503));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ baseDelayMs: 1, methods: [HttpMethod.POST] }) });
+
+  const file = FileUpload.fromReadable({ readable: chunks(), filename: 'clip.txt' });
+
+  try {
+    await client.create({ slug: 'media', data: {}, file });
+    throw new Error('Expected the upload to fail');
+  }
+  catch (error: unknown) {
+    TestHarness.assertTrue(error instanceof PayloadError);
+  }
+
+  TestHarness.assertEqual(mock.requests.length, 1);
+});
+
+export async function testStreamingUpload() {
+  await harness.run('Running StreamingUpload tests...\n');
+}
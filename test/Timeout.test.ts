@@ -0,0 +1,87 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { PayloadTimeoutError } from '../public/errors/PayloadTimeoutError.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+// Never resolves on its own; rejects with the abort reason like `fetch` does.
+const hanging = (): MockFetch => new MockFetch(({ init }) => new Promise<Response>((_, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+}));
+
+const capture = async (fn: () => Promise<unknown>): Promise<unknown> => {
+  try {
+    await fn();
+  }
+  catch (error) {
+    return error;
+  }
+
+  return undefined;
+};
+
+harness.add('client-wide timeout should raise PayloadTimeoutError', async () => {
+  const mock = hanging();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, timeoutMs: 20 });
+
+  const error = await capture(() => client.findById({ slug: 'posts', id: '1' }));
+
+  TestHarness.assertTrue(error instanceof PayloadTimeoutError);
+
+  const timeout = error as PayloadTimeoutError;
+
+  TestHarness.assertEqual(timeout.method, HttpMethod.GET);
+  TestHarness.assertEqual(timeout.url, `${BASE_URL}/api/posts/1`);
+  TestHarness.assertEqual(timeout.timeoutMs, 20);
+  TestHarness.assertTrue(timeout.elapsedMs >= 20);
+});
+
+harness.add('per-call timeout should override the client default', async () => {
+  const mock = hanging();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, timeoutMs: 60_000 });
+
+  const error = await capture(() => client.find({ slug: 'posts', timeoutMs: 10 }));
+
+  TestHarness.assertTrue(error instanceof PayloadTimeoutError);
+  TestHarness.assertEqual((error as PayloadTimeoutError).timeoutMs, 10);
+});
+
+harness.add('request() should accept a timeout in RequestConfig', async () => {
+  const mock = hanging();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const error = await capture(() => client.request({ method: HttpMethod.POST, path: '/api/custom', timeoutMs: 10 }));
+
+  TestHarness.assertTrue(error instanceof PayloadTimeoutError);
+  TestHarness.assertEqual((error as PayloadTimeoutError).method, HttpMethod.POST);
+});
+
+harness.add('caller abort should not be reported as a timeout', async () => {
+  const mock = hanging();
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, timeoutMs: 60_000 });
+  const controller = new AbortController();
+
+  setTimeout(() => controller.abort(), 10);
+
+  const error = await capture(() => client.find({ slug: 'posts', signal: controller.signal }));
+
+  TestHarness.assertFalse(error instanceof PayloadTimeoutError);
+  TestHarness.assertEqual((error as Error).message, '[PayloadError] Request was aborted');
+});
+
+harness.add('fast responses should not time out', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ id: '1' }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, timeoutMs: 1_000 });
+
+  const result = await client.findById({ slug: 'posts', id: '1' });
+
+  TestHarness.assertEqual(result.id, '1');
+});
+
+export async function testTimeout() {
+  await harness.run('Running Timeout tests...\n');
+}
@@ -0,0 +1,76 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { PayloadError } from '../public/PayloadError.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { HttpMethod } from '../public/enums/HttpMethod.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+harness.add('find() should send the request through the injected fetch', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ docs: [{ id: '1' }], totalDocs: 1 }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const result = await client.find({ slug: 'posts', query: new QueryBuilder().limit({ value: 5 }) });
+
+  TestHarness.assertEqual(mock.requests.length, 1);
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/posts?limit=5`);
+  TestHarness.assertEqual(mock.last.init?.method, 'GET');
+  TestHarness.assertEqual(result.docs[0].id, '1');
+});
+
+harness.add('create() should send a JSON body through the injected fetch', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ doc: { id: 'abc', title: 'Hello' } }, 201));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const result = await client.create({ slug: 'posts', data: { title: 'Hello' } });
+
+  TestHarness.assertEqual(mock.last.init?.method, 'POST');
+  TestHarness.assertEqual(mock.last.init?.body, JSON.stringify({ title: 'Hello' }));
+  TestHarness.assertEqual(result.id, 'abc');
+});
+
+harness.add('login() should send credentials through the injected fetch', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ token: 'jwt', exp: 123, user: { id: 'u1' } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const result = await client.login({ slug: 'users', data: { email: 'a@b.c', password: 'pw' } });
+
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/users/login`);
+  TestHarness.assertEqual(result.token, 'jwt');
+  TestHarness.assertEqual(result.user.id, 'u1');
+});
+
+harness.add('request() should send custom endpoint calls through the injected fetch', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ ok: true }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const result = await client.request({ method: HttpMethod.PUT, path: '/api/custom', body: { key: 'value' } });
+
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/custom`);
+  TestHarness.assertEqual(mock.last.init?.method, 'PUT');
+  TestHarness.assertEqual(result, { ok: true });
+});
+
+harness.add('non-2xx responses from the injected fetch should throw PayloadError', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ errors: [{ message: 'Not Found' }] }, 404));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  let caught: unknown = undefined;
+
+  try {
+    await client.findById({ slug: 'posts', id: 'missing' });
+  }
+  catch (error) {
+    caught = error;
+  }
+
+  TestHarness.assertTrue(caught instanceof PayloadError);
+  TestHarness.assertEqual((caught as PayloadError).statusCode, 404);
+});
+
+export async function testTransport() {
+  await harness.run('Running Transport tests...\n');
+}
@@ -0,0 +1,159 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { QueryBuilder } from '../public/query/QueryBuilder.ts';
+import { Operator } from '../public/enums/Operator.ts';
+import { RefreshingJwtAuth } from '../public/config/RefreshingJwtAuth.ts';
+import { MediaImporter } from '../public/upload/MediaImporter.ts';
+import { DocumentDTO } from '../public/models/collection/DocumentDTO.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+interface Post {
+  id: string;
+  title: string;
+  views: number;
+  tags?: string[] | null;
+  updatedAt: string;
+  createdAt: string;
+}
+
+interface Media {
+  id: string;
+  alt: string;
+  url?: string | null;
+  filename?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+
+interface Settings {
+  id: string;
+  siteName: string;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+
+interface Config {
+  collections: {
+    posts: Post;
+    media: Media;
+  };
+  globals: {
+    settings: Settings;
+  };
+}
+
+const post = { id: 'p1', title: 'Hello', views: 3, createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-02T00:00:00.000Z' };
+
+function body(init: RequestInit | undefined): unknown {
+  return JSON.parse(init?.body as string);
+}
+
+harness.add('typed client should return typed documents from find and findById', async () => {
+  const mock = new MockFetch(request => request.url.endsWith('/p1') ? MockFetch.json(post) : MockFetch.json({ docs: [post], totalDocs: 1 }));
+  const client = new PayloadSDK<Config>({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const page = await client.find({ slug: 'posts' });
+  const doc = await client.findById({ slug: 'posts', id: 'p1' });
+  const title: string = doc.json.title;
+  const views: number = page.docs[0].json.views;
+
+  TestHarness.assertEqual(title, 'Hello');
+  TestHarness.assertEqual(views, 3);
+  TestHarness.assertEqual(doc.id, 'p1');
+  TestHarness.assertEqual(doc.createdAt?.toISOString(), post.createdAt);
+});
+
+harness.add('typed client should accept create data without system fields', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ doc: post }));
+  const client = new PayloadSDK<Config>({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const doc = await client.create({ slug: 'posts', data: { title: 'Hello', views: 3 } });
+
+  TestHarness.assertEqual(body(mock.last.init), { title: 'Hello', views: 3 });
+  TestHarness.assertEqual(doc.json.title, 'Hello');
+});
+
+harness.add('typed client should accept partial update data', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ doc: { ...post, views: 4 }, docs: [{ ...post, views: 4 }] }));
+  const client = new PayloadSDK<Config>({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const doc = await client.updateById({ slug: 'posts', id: 'p1', data: { views: 4 } });
+  const page = await client.update({ slug: 'posts', data: { tags: null }, query: new QueryBuilder().where({ field: 'views', operator: Operator.Equals, value: 3 }) });
+
+  TestHarness.assertEqual(doc.json.views, 4);
+  TestHarness.assertEqual(page.docs[0].json.views, 4);
+  TestHarness.assertEqual(body(mock.requests[1].init), { tags: null });
+});
+
+harness.add('typed client should type globals', async () => {
+  const mock = new MockFetch(request => request.init?.method === 'POST'
+    ? MockFetch.json({ result: { id: 's1', siteName: 'Renamed' } })
+    : MockFetch.json({ id: 's1', siteName: 'Site' }));
+  const client = new PayloadSDK<Config>({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const settings = await client.findGlobal({ slug: 'settings' });
+  const updated = await client.updateGlobal({ slug: 'settings', data: { siteName: 'Renamed' } });
+  const name: string = settings.json.siteName;
+
+  TestHarness.assertEqual(name, 'Site');
+  TestHarness.assertEqual(updated.json.siteName, 'Renamed');
+  TestHarness.assertEqual(mock.last.url, `${BASE_URL}/api/globals/settings`);
+});
+
+harness.add('typed client should reject unknown slugs and fields at compile time', async () => {
+  const client = new PayloadSDK<Config>({ baseUrl: BASE_URL, fetch: new MockFetch(() => MockFetch.json({ doc: post })).fetch });
+
+  const check = () => {
+    // @ts-expect-error unknown collection slug
+    client.find({ slug: 'pages' });
+    // @ts-expect-error global slug used as a collection
+    client.findById({ slug: 'settings', id: 's1' });
+    // @ts-expect-error collection slug used as a global
+    client.findGlobal({ slug: 'posts' });
+    // @ts-expect-error missing required field
+    client.create({ slug: 'posts', data: { title: 'Hello' } });
+    // @ts-expect-error wrong field type
+    client.updateById({ slug: 'posts', id: 'p1', data: { views: 'many' } });
+  };
+
+  TestHarness.assertTrue(typeof check === 'function');
+});
+
+harness.add('typed client should keep its schema on derived clients', async () => {
+  const mock = new MockFetch(() => MockFetch.json(post));
+  const client = new PayloadSDK<Config>({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const doc = await client.withHeaders({ headers: { 'X-Tenant': 'a' } }).findById({ slug: 'posts', id: 'p1' });
+  const { data } = await client.withResponse({ call: derived => derived.findById({ slug: 'posts', id: 'p1' }) });
+
+  TestHarness.assertEqual(doc.json.title, 'Hello');
+  TestHarness.assertEqual(data.json.views, 3);
+});
+
+harness.add('typed client should work with helpers that take a client', async () => {
+  const client = new PayloadSDK<Config>({ baseUrl: BASE_URL, fetch: new MockFetch().fetch });
+
+  const auth = new RefreshingJwtAuth({ client, slug: 'users', token: 'token' });
+  const importer = new MediaImporter({ client, slug: 'media' });
+
+  TestHarness.assertTrue(auth instanceof RefreshingJwtAuth);
+  TestHarness.assertTrue(importer instanceof MediaImporter);
+});
+
+harness.add('untyped client should keep DocumentDTO json as Json', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ doc: { id: 'x1', anything: { nested: true } } }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const doc: DocumentDTO = await client.create({ slug: 'anything', data: { anything: { nested: true } } });
+
+  TestHarness.assertEqual(doc.json['anything'], { nested: true });
+  TestHarness.assertEqual(DocumentDTO.toJson(doc), { id: 'x1', anything: { nested: true } });
+});
+
+export async function testTypedSchema() {
+  await harness.run('Running TypedSchema tests...\n');
+}
@@ -0,0 +1,82 @@
+import { PayloadSDK } from '../public/PayloadSDK.ts';
+import { ResponseCache } from '../public/cache/ResponseCache.ts';
+import { RetryPolicy } from '../public/config/RetryPolicy.ts';
+import { PayloadNotFoundError } from '../public/errors/PayloadNotFoundError.ts';
+import { TestHarness } from './TestHarness.ts';
+import { MockFetch } from './MockFetch.ts';
+
+const harness = new TestHarness();
+
+const BASE_URL = 'http://payload.test';
+
+harness.add('withResponse should return the DTO with the response metadata', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ id: '1', title: 'Hello' }, 200, { 'Cache-Control': 'max-age=60', 'X-RateLimit-Remaining': '99' }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const { data, response } = await client.withResponse({ call: client => client.findById({ slug: 'posts', id: '1' }) });
+
+  TestHarness.assertEqual(data.id, '1');
+  TestHarness.assertEqual(response.status, 200);
+  TestHarness.assertEqual(response.headers.get('Cache-Control'), 'max-age=60');
+  TestHarness.assertEqual(response.headers.get('X-RateLimit-Remaining'), '99');
+  TestHarness.assertEqual(response.url, `${BASE_URL}/api/posts/1`);
+  TestHarness.assertTrue(response.durationMs >= 0);
+});
+
+harness.add('durationMs should span retries and report the final response', async () => {
+  let calls = 0;
+  const mock = new MockFetch(() => calls++ === 0
+    ? MockFetch.json({ errors: [] }, 503)
+    : MockFetch.json({ docs: [] }, 200, { 'X-Attempt': String(calls) }));
+
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, retry: new RetryPolicy({ baseDelayMs: 20, jitter: false }) });
+  const { response } = await client.withResponse({ call: client => client.find({ slug: 'posts' }) });
+
+  TestHarness.assertEqual(response.headers.get('X-Attempt'), '2');
+  TestHarness.assertTrue(response.durationMs >= 20);
+});
+
+harness.add('cached reads should report the stored response', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ id: '1' }, 200, { ETag: '"v1"' }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch, cache: new ResponseCache() });
+
+  await client.findById({ slug: 'posts', id: '1' });
+  const { response } = await client.withResponse({ call: client => client.findById({ slug: 'posts', id: '1' }) });
+
+  TestHarness.assertEqual(mock.requests.length, 1);
+  TestHarness.assertEqual(response.status, 200);
+  TestHarness.assertEqual(response.headers.get('ETag'), '"v1"');
+});
+
+harness.add('failed calls should still throw', async () => {
+  const mock = new MockFetch(() => MockFetch.json({ errors: [{ message: 'Not Found' }] }, 404));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const error = await client.withResponse({ call: client => client.findById({ slug: 'posts', id: 'x' }) }).catch(error => error);
+
+  TestHarness.assertTrue(error instanceof PayloadNotFoundError);
+});
+
+harness.add('concurrent calls should not see each other\'s responses', async () => {
+  const mock = new MockFetch(({ url }) => MockFetch.json({ docs: [] }, 200, { 'X-Url': url }));
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: mock.fetch });
+
+  const [posts, pages] = await Promise.all([
+    client.withResponse({ call: client => client.find({ slug: 'posts' }) }),
+    client.withResponse({ call: client => client.find({ slug: 'pages' }) }),
+  ]);
+
+  TestHarness.assertEqual(posts.response.headers.get('X-Url'), `${BASE_URL}/api/posts`);
+  TestHarness.assertEqual(pages.response.headers.get('X-Url'), `${BASE_URL}/api/pages`);
+});
+
+harness.add('a call that sends no request should be rejected', async () => {
+  const client = new PayloadSDK({ baseUrl: BASE_URL, fetch: new MockFetch().fetch });
+  const error = await client.withResponse({ call: async () => 'nothing' }).catch(error => error);
+
+  TestHarness.assertEqual(error.message, '[PayloadError] withResponse call did not send a request');
+});
+
+export async function testWithResponse() {
+  await harness.run('Running WithResponse tests...\n');
+}
@@ -4,6 +4,30 @@ import { testSelectBuilder } from './SelectBuilder.test.ts';
 import { testJoinBuilder } from './JoinBuilder.test.ts';
 import { testApiKeyAuth } from './ApiKeyAuth.test.ts';
 import { testPayloadError } from './PayloadError.test.ts';
+import { testTransport } from './Transport.test.ts';
+import { testMiddleware } from './Middleware.test.ts';
+import { testRetryPolicy } from './RetryPolicy.test.ts';
+import { testTimeout } from './Timeout.test.ts';
+import { testPayloadSDKError } from './PayloadSDKError.test.ts';
+import { testResponseCache } from './ResponseCache.test.ts';
+import { testRequestDeduplicator } from './RequestDeduplicator.test.ts';
+import { testRequestLimiter } from './RequestLimiter.test.ts';
+import { testRequestLogger } from './RequestLogger.test.ts';
+import { testCookieAuth } from './CookieAuth.test.ts';
+import { testRefreshingJwtAuth } from './RefreshingJwtAuth.test.ts';
+import { testSessionManager } from './SessionManager.test.ts';
+import { testSessionStorage } from './SessionStorage.test.ts';
+import { testAuthCredential } from './AuthCredential.test.ts';
+import { testIdentity } from './Identity.test.ts';
+import { testRequestOptions } from './RequestOptions.test.ts';
+import { testDerivedClient } from './DerivedClient.test.ts';
+import { testWithResponse } from './WithResponse.test.ts';
+import { testRawRequest } from './RawRequest.test.ts';
+import { testDownload } from './Download.test.ts';
+import { testStreamingUpload } from './StreamingUpload.test.ts';
+import { testFileUpload } from './FileUpload.test.ts';
+import { testMediaImporter } from './MediaImporter.test.ts';
+import { testTypedSchema } from './TypedSchema.test.ts';
 
 // Run all test suites sequentially
 async function main() {
@@ -13,6 +37,30 @@ async function main() {
   await testJoinBuilder();
   await testApiKeyAuth();
   await testPayloadError();
+  await testTransport();
+  await testMiddleware();
+  await testRetryPolicy();
+  await testTimeout();
+  await testPayloadSDKError();
+  await testResponseCache();
+  await testRequestDeduplicator();
+  await testRequestLimiter();
+  await testRequestLogger();
+  await testCookieAuth();
+  await testRefreshingJwtAuth();
+  await testSessionManager();
+  await testSessionStorage();
+  await testAuthCredential();
+  await testIdentity();
+  await testRequestOptions();
+  await testDerivedClient();
+  await testWithResponse();
+  await testRawRequest();
+  await testDownload();
+  await testStreamingUpload();
+  await testFileUpload();
+  await testMediaImporter();
+  await testTypedSchema();
 }
 
 main();
\ No newline at end of file
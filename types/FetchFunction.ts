@@ -0,0 +1,8 @@
+/**
+ * The transport signature used by {@link PayloadSDK} to send requests.
+ *
+ * Compatible with the global `fetch`, `undici`'s `fetch`, and
+ * platform-specific implementations that accept a URL string
+ * and a `RequestInit`.
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;